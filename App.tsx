@@ -1,10 +1,28 @@
 
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { Member, AppData, Slot, THEME_CONFIG, CLASS_COLORS, Squad, GameConfig, DEFAULT_ULT_SKILLS, DEFAULT_CLAN_SKILLS } from './types';
-import { loadData, saveData, loadBackground, saveBackground, clearBackground } from './services/storage';
+import { Member, AppData, Slot, CLASS_COLORS, GROUP_COLORS, Squad, GameConfig, DEFAULT_ULT_SKILLS, DEFAULT_CLAN_SKILLS, MEMBER_STATS, MemberStatKey, AttendanceStatus } from './types';
+import { loadData, loadBackground, saveBackground, clearBackground } from './services/storage';
+import { syncActivePlan, getAttendance } from './services/plans';
+import { deployedAs } from './services/characters';
+import { migrateData, CURRENT_SCHEMA_VERSION } from './services/migrations';
+import { validateRosterData, ValidationIssue } from './services/validation';
+import { useHistory } from './hooks/useHistory';
+import { useAutosave, SaveStatus } from './hooks/useAutosave';
+import { rosterReducer, RosterAction, SlotRef, BenchRef, collectBenchIds } from './services/roster';
+import { subscribeRosterChanges } from './services/sync';
+import { createShareUrl, buildShareData, readShareFromLocation, clearShareFromLocation } from './services/share';
 import MemberSidebar from './components/MemberSidebar';
-import { MemberEditorModal, StructureEditorModal, SkillEditorModal, GameConfigModal } from './components/Modals';
-import { Settings, Image as ImageIcon, Download, Save, XCircle, MousePointer2, Plus, LayoutGrid, Palette, FileJson, Upload, Moon, Sun, Gamepad2, Eye } from 'lucide-react';
+import PlanSwitcher from './components/PlanSwitcher';
+import { ImportReportModal } from './components/ImportReportModal';
+import { MergeImportModal } from './components/MergeImportModal';
+import { AttendanceModal } from './components/AttendanceModal';
+import { HistoryModal } from './components/HistoryModal';
+import { computeHistoryStats, stampJoinDates } from './services/history';
+import { exportPoolTable } from './services/spreadsheet';
+import DiffPanel, { CompareBase } from './components/DiffPanel';
+import { diffRosters } from './services/diff';
+import { MemberEditorModal, StructureEditorModal, SkillEditorModal, GameConfigModal, TagChip } from './components/Modals';
+import { Settings, Image as ImageIcon, Download, Save, XCircle, MousePointer2, Plus, LayoutGrid, Palette, FileJson, Upload, Moon, Sun, Gamepad2, Eye, Undo2, Redo2, GitCompare, AlertTriangle, Share2, Globe, Check, CalendarCheck, Armchair, History, Sheet, X } from 'lucide-react';
 import html2canvas from 'html2canvas';
 
 // --- Constants ---
@@ -46,8 +64,11 @@ interface SlotItemProps {
   cardHeight: number;
   cardOpacity: number;
   metaFontSize: number;
+  diffHint?: string; // Set when the slot differs from the compare base: previous occupant ('' if empty)
+  attendance?: AttendanceStatus; // Occupant's sign-up status for the active plan
+  isLocated?: boolean; // Flashed after jumping here from the sidebar
   onClick: (g: number, s: number, si: number) => void;
-  onRightClick: (e: React.MouseEvent, memberId: string) => void;
+  onRightClick: (e: React.MouseEvent, memberId: string, at: SlotRef) => void;
   // DnD
   onDrop: (e: React.DragEvent, g: number, s: number, si: number) => void;
   onDragStart: (e: React.DragEvent, g: number, s: number, si: number, memberId: string) => void;
@@ -55,7 +76,7 @@ interface SlotItemProps {
 
 const SlotItem = React.memo<SlotItemProps>(({
   gIdx, sIdx, slotIdx, slot, member, isDeploymentTarget, isExportMode, classColor,
-  cardWidth, cardHeight, cardOpacity, metaFontSize,
+  cardWidth, cardHeight, cardOpacity, metaFontSize, diffHint, attendance, isLocated,
   onClick, onRightClick, onDrop, onDragStart
 }) => {
   const isEmpty = !member;
@@ -101,11 +122,13 @@ const SlotItem = React.memo<SlotItemProps>(({
   }, [member, classColor, cardHeight, cardOpacity]);
 
   const mergedNote = member?.note || '';
+  const isAbsent = !!member && attendance === 'leave';
 
   return (
     <div 
+      data-member-id={slot.memberId || undefined}
       onClick={handleClick}
-      onContextMenu={(e) => { if (!isExportMode && member) onRightClick(e, member.id); }}
+      onContextMenu={(e) => { if (!isExportMode && member) onRightClick(e, member.id, { gIdx, sIdx, slotIdx }); }}
       onDragOver={handleDragOver}
       onDragLeave={handleDragLeave}
       onDrop={handleDropInternal}
@@ -119,9 +142,23 @@ const SlotItem = React.memo<SlotItemProps>(({
          }
          ${(isDeploymentTarget || isDragOver) ? 'ring-2 ring-primary ring-offset-1 scale-[1.02] bg-primary/10 dark:bg-primary/20 border-primary border-solid' : ''}
          ${!isExportMode && !isDeploymentTarget ? 'cursor-pointer hover:shadow-md' : ''}
+         ${diffHint !== undefined ? 'outline outline-2 outline-amber-400 outline-offset-1' : ''}
+         ${isAbsent && !isExportMode ? 'ring-2 ring-red-500 ring-offset-1' : ''}
+         ${isLocated ? 'ring-4 ring-amber-400 ring-offset-2 dark:ring-offset-slate-800 animate-pulse' : ''}
       `}
       style={cardStyle}
+      title={diffHint !== undefined ? `原: ${diffHint || '空'}` : undefined}
     >
+      {diffHint !== undefined && (
+        <span className="absolute top-0 right-0 z-10 text-[10px] font-bold leading-none bg-amber-400 text-amber-950 px-1 py-0.5 rounded-bl max-w-[50%] truncate">
+          原:{diffHint || '空'}
+        </span>
+      )}
+      {isAbsent && !isExportMode && (
+        <span className="absolute bottom-0 right-0 z-10 flex items-center gap-0.5 text-[10px] font-bold leading-none bg-red-500 text-white px-1 py-0.5 rounded-tl" title="该成员本场已请假">
+          <AlertTriangle size={10} /> 请假
+        </span>
+      )}
       {member ? (
         <div className="flex-1 pl-3 flex items-center justify-between min-w-0 pr-1 h-full">
           {/* Main Info - Flex column centered */}
@@ -134,25 +171,41 @@ const SlotItem = React.memo<SlotItemProps>(({
                 >
                    {member.profession}
                 </span>
+                {slot.characterId && !isExportMode && (
+                  <span className="text-[10px] font-bold text-gray-500 dark:text-slate-400 border border-current px-1 rounded-sm shrink-0 self-center leading-none py-0.5" title="本方案使用小号出战">小号</span>
+                )}
+                {member.tags?.slice(0, 3).map(t => (
+                  <TagChip key={t} tag={t} className="shrink-0 self-center opacity-90" />
+                ))}
              </div>
              <div className="flex gap-2 items-center opacity-90 mt-0.5" style={{ fontSize: `${metaFontSize}px` }}>
                  <span className={`font-bold leading-none ${member.ult !== '无' ? 'text-accent dark:text-purple-300' : 'text-gray-400 dark:text-slate-500'}`}>
                     {member.ult === '无' ? '-' : member.ult}
                  </span>
-                 <span className="w-px h-3 bg-gray-400 dark:bg-slate-500"></span>
+                 <span className="w-px h-3 bg-gray-400 dark:bg-slate-500 shrink-0"></span>
                  <span className="font-semibold text-gray-700 dark:text-slate-300 truncate leading-none">
                     {member.clan === '无' ? '' : member.clan}
                  </span>
                   {mergedNote && (
                     <>
-                        <span className="w-px h-3 bg-gray-400 dark:bg-slate-500"></span>
-                        <span className="font-bold text-gray-800 dark:text-white truncate leading-none">
+                        <span className="w-px h-3 bg-gray-400 dark:bg-slate-500 shrink-0"></span>
+                        <span className="font-bold text-gray-800 dark:text-white truncate leading-none min-w-0">
                             {mergedNote}
                         </span>
                     </>
                  )}
              </div>
           </div>
+          {(member.power !== undefined || member.level !== undefined || member.gear !== undefined) && (
+            <div className="flex flex-col items-end justify-center shrink-0 gap-1 leading-none font-mono pl-1" style={{ fontSize: `${metaFontSize}px` }}>
+              {member.power !== undefined && <span className="font-bold text-gray-900 dark:text-white">{member.power.toLocaleString()}</span>}
+              {(member.level !== undefined || member.gear !== undefined) && (
+                <span className="text-gray-500 dark:text-slate-400 whitespace-nowrap">
+                  {[member.level !== undefined ? `Lv${member.level}` : '', member.gear !== undefined ? `装${member.gear}` : ''].filter(Boolean).join(' ')}
+                </span>
+              )}
+            </div>
+          )}
         </div>
       ) : (
         !isExportMode && (
@@ -176,11 +229,81 @@ const SlotItem = React.memo<SlotItemProps>(({
     prev.cardHeight === next.cardHeight &&
     prev.cardOpacity === next.cardOpacity &&
     prev.classColor === next.classColor &&
-    prev.metaFontSize === next.metaFontSize
+    prev.metaFontSize === next.metaFontSize &&
+    prev.diffHint === next.diffHint &&
+    prev.attendance === next.attendance &&
+    prev.isLocated === next.isLocated
   );
 });
 
-// 2. Squad Column Component
+// 2. Substitute Bench
+interface BenchAreaProps {
+  label: string;
+  memberIds: string[];
+  benchRef: BenchRef;
+  pool: Member[];
+  professionColors: Record<string, string>;
+  isExportMode: boolean;
+  isDeploymentTarget: boolean;
+  locatedMemberId?: string | null;
+  onDrop: (e: React.DragEvent, ref: BenchRef) => void;
+  onClick: (ref: BenchRef) => void;
+  onRemove: (memberId: string) => void;
+  onDragStart: (e: React.DragEvent, memberId: string) => void;
+}
+
+const BenchArea = React.memo<BenchAreaProps>(({
+  label, memberIds, benchRef, pool, professionColors, isExportMode, isDeploymentTarget, locatedMemberId,
+  onDrop, onClick, onRemove, onDragStart
+}) => {
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  return (
+    <div
+      onClick={() => { if (!isExportMode) onClick(benchRef); }}
+      onDragOver={(e) => { e.preventDefault(); if (!isExportMode) setIsDragOver(true); }}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={(e) => { e.preventDefault(); setIsDragOver(false); if (!isExportMode) onDrop(e, benchRef); }}
+      className={`rounded border border-dashed p-1.5 transition-colors
+        ${isDragOver || isDeploymentTarget ? 'border-primary bg-primary/5 dark:bg-primary/10' : 'border-gray-300 dark:border-slate-600 bg-gray-50/60 dark:bg-slate-900/30'}
+        ${!isExportMode ? 'cursor-pointer' : ''}`}
+    >
+      <div className="text-[10px] font-bold text-gray-400 dark:text-slate-500 mb-1 flex items-center gap-1">
+        <Armchair size={10} /> {label}
+        {memberIds.length > 0 && <span className="font-mono">({memberIds.length})</span>}
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {memberIds.length === 0 && !isExportMode && <span className="text-[11px] text-gray-300 dark:text-slate-600">拖入成员作为替补</span>}
+        {memberIds.map(id => {
+          const member = pool.find(m => m.id === id);
+          if (!member) return null;
+          return (
+            <div
+              key={id}
+              data-member-id={id}
+              draggable={!isExportMode}
+              onDragStart={(e) => { e.stopPropagation(); onDragStart(e, id); }}
+              onClick={(e) => e.stopPropagation()}
+              className={`group/bench flex items-center gap-1 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded px-1.5 py-0.5 text-xs shadow-sm ${locatedMemberId === id ? 'ring-2 ring-amber-400 ring-offset-1 dark:ring-offset-slate-800 animate-pulse' : ''}`}
+              style={{ borderLeft: `3px solid ${professionColors[member.profession] || '#999'}` }}
+              title={`${member.name} · ${member.profession}`}
+            >
+              <span className="font-bold text-gray-800 dark:text-gray-100 truncate max-w-[6rem]">{member.name}</span>
+              <span className="text-[10px] text-gray-400">{member.profession}</span>
+              {!isExportMode && (
+                <button onClick={() => onRemove(id)} className="text-gray-300 hover:text-red-500 opacity-0 group-hover/bench:opacity-100 transition-opacity" title="移出替补">
+                  <X size={10} />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+});
+
+// 3. Squad Column Component
 interface SquadColumnProps {
   squad: Squad;
   gIdx: number;
@@ -193,18 +316,29 @@ interface SquadColumnProps {
   cardOpacity: number;
   metaFontSize: number;
   professionColors: Record<string, string>;
+  changedSlots?: Map<string, string>;
+  planId?: string;
+  showBench: boolean;
+  locatedMemberId?: string | null;
   onSlotClick: (g: number, s: number, si: number) => void;
-  onSlotRightClick: (e: React.MouseEvent, memberId: string) => void;
+  onSlotRightClick: (e: React.MouseEvent, memberId: string, at: SlotRef) => void;
   onSquadNameChange: (gIdx: number, sIdx: number, val: string) => void;
   onSlotDrop: (e: React.DragEvent, g: number, s: number, si: number) => void;
   onSlotDragStart: (e: React.DragEvent, g: number, s: number, si: number, memberId: string) => void;
+  onBenchDrop: (e: React.DragEvent, ref: BenchRef) => void;
+  onBenchClick: (ref: BenchRef) => void;
+  onBenchRemove: (memberId: string) => void;
+  onBenchDragStart: (e: React.DragEvent, memberId: string) => void;
 }
 
 const SquadColumn = React.memo<SquadColumnProps>(({
   squad, gIdx, sIdx, pool, isExportMode, selectedMemberId,
-  cardWidth, cardHeight, cardOpacity, metaFontSize, professionColors,
-  onSlotClick, onSlotRightClick, onSquadNameChange, onSlotDrop, onSlotDragStart
+  cardWidth, cardHeight, cardOpacity, metaFontSize, professionColors, changedSlots, planId, showBench, locatedMemberId,
+  onSlotClick, onSlotRightClick, onSquadNameChange, onSlotDrop, onSlotDragStart,
+  onBenchDrop, onBenchClick, onBenchRemove, onBenchDragStart
 }) => {
+  const benchIds = squad.bench || [];
+  const squadPower = squad.slots.reduce((sum, sl) => sum + (pool.find(m => m.id === sl.memberId)?.power || 0), 0);
   return (
     <div 
         className="flex flex-col group/col bg-white dark:bg-slate-800/80 p-2 rounded-lg border border-gray-200 dark:border-slate-700 shadow-sm hover:shadow-md transition-all duration-300"
@@ -220,12 +354,16 @@ const SquadColumn = React.memo<SquadColumnProps>(({
            onChange={e => onSquadNameChange(gIdx, sIdx, e.target.value)}
            placeholder="队名"
          />
+         {!isExportMode && squadPower > 0 && (
+           <span className="absolute right-2 text-[10px] font-mono text-gray-400 dark:text-slate-500" title="队伍总战力">{squadPower.toLocaleString()}</span>
+         )}
       </div>
 
       {/* Slots Stack */}
       <div className="flex flex-col gap-2">
         {squad.slots.map((slot, slotIdx) => {
-          const member = slot.memberId ? pool.find(m => m.id === slot.memberId) : undefined;
+          const owner = slot.memberId ? pool.find(m => m.id === slot.memberId) : undefined;
+          const member = owner && deployedAs(owner, slot.characterId);
           return (
             <SlotItem
               key={slot.id}
@@ -241,6 +379,9 @@ const SquadColumn = React.memo<SquadColumnProps>(({
               cardHeight={cardHeight}
               cardOpacity={cardOpacity}
               metaFontSize={metaFontSize}
+              diffHint={changedSlots?.get(slot.id)}
+              attendance={member ? getAttendance(member, planId) : undefined}
+              isLocated={!!slot.memberId && slot.memberId === locatedMemberId}
               onClick={onSlotClick}
               onRightClick={onSlotRightClick}
               onDrop={onSlotDrop}
@@ -249,15 +390,55 @@ const SquadColumn = React.memo<SquadColumnProps>(({
           );
         })}
       </div>
+
+      {/* Substitutes */}
+      {showBench && (!isExportMode || benchIds.length > 0) && (
+        <div className="mt-2">
+          <BenchArea
+            label="替补"
+            memberIds={benchIds}
+            benchRef={{ gIdx, sIdx }}
+            pool={pool}
+            professionColors={professionColors}
+            isExportMode={isExportMode}
+            isDeploymentTarget={!!selectedMemberId}
+            locatedMemberId={locatedMemberId}
+            onDrop={onBenchDrop}
+            onClick={onBenchClick}
+            onRemove={onBenchRemove}
+            onDragStart={onBenchDragStart}
+          />
+        </div>
+      )}
     </div>
   );
 });
 
+// 4. Save Status Indicator
+const SaveIndicator: React.FC<{ status: SaveStatus; savedAt: Date | null }> = ({ status, savedAt }) => {
+  const time = savedAt?.toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit' });
+  const meta: Record<SaveStatus, { text: string; className: string }> = {
+    saved: { text: time ? `已保存 ${time}` : '已保存', className: 'text-gray-400 dark:text-slate-500' },
+    dirty: { text: '有未保存的修改', className: 'text-amber-600 dark:text-amber-400' },
+    saving: { text: '保存中...', className: 'text-gray-400 dark:text-slate-500' },
+    failed: { text: '保存失败', className: 'text-red-600 dark:text-red-400 font-bold' },
+    conflict: { text: '与其他标签页冲突', className: 'text-red-600 dark:text-red-400 font-bold' },
+  };
+  const { text, className } = meta[status];
+  return (
+    <span className={`text-xs flex items-center gap-1.5 whitespace-nowrap ${className}`} title={status === 'failed' ? '浏览器存储空间可能不足，请清理数据后点击保存重试' : undefined}>
+      {status === 'saved' ? <Check size={14} /> : status === 'failed' || status === 'conflict' ? <AlertTriangle size={14} /> : <span className="w-2 h-2 rounded-full bg-current" />}
+      {text}
+    </span>
+  );
+};
+
 // --- Main App ---
 
 const App: React.FC = () => {
-  const [data, setData] = useState<AppData>({ pool: [], groups: [] });
+  const { state: data, set: setData, reset: resetData, undo, redo, canUndo, canRedo } = useHistory<AppData>({ pool: [], groups: [] });
   const [selectedMemberId, setSelectedMemberId] = useState<string | null>(null);
+  const [locatedMemberId, setLocatedMemberId] = useState<string | null>(null); // Placed member the sidebar jumped to
   const [backgroundImage, setBackgroundImage] = useState<string | null>(null);
   const [themeMode, setThemeMode] = useState<'light' | 'dark'>('light');
   
@@ -268,20 +449,34 @@ const App: React.FC = () => {
   const [metaFontSize, setMetaFontSize] = useState(12);
 
   const [showMemberEditor, setShowMemberEditor] = useState(false);
+  const [showAttendance, setShowAttendance] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [showStructureEditor, setShowStructureEditor] = useState(false);
   const [showGameConfig, setShowGameConfig] = useState(false);
   const [showBgPicker, setShowBgPicker] = useState(false);
   const [showViewSettings, setShowViewSettings] = useState(false);
-
-  const [contextMenu, setContextMenu] = useState<{ member: Member, pos: {x: number, y: number} } | null>(null);
+  const [showTableExport, setShowTableExport] = useState(false);
+
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; data: AppData; issues: ValidationIssue[] } | null>(null);
+  const [showDiffPanel, setShowDiffPanel] = useState(false);
+  const [compareBase, setCompareBase] = useState<CompareBase | null>(null);
+  const [mergeImport, setMergeImport] = useState<{ fileName: string; incoming: AppData } | null>(null);
+  const [contextMenu, setContextMenu] = useState<{ member: Member, at: SlotRef, pos: {x: number, y: number} } | null>(null);
+  const [syncConflict, setSyncConflict] = useState(false);
+  const [sharedView, setSharedView] = useState<AppData | null>(null); // Roster opened from a share link, read-only
   const [exportMode, setExportMode] = useState(false);
+  const [exportBench, setExportBench] = useState(false); // Include substitutes in the screenshot
   const [exportTitle, setExportTitle] = useState("帮会联赛排兵布阵");
   const [exportTime, setExportTime] = useState(() => {
     const now = new Date();
     return `${now.getFullYear()}/${now.getMonth() + 1}/${now.getDate()} 20:00 - 22:00`;
   });
 
+  const { status: saveStatus, savedAt, save, markSaved, isDirty } = useAutosave(data, () => setSyncConflict(true));
+
   const selectedMemberIdRef = useRef(selectedMemberId);
+  const dataRef = useRef(data);
+  dataRef.current = data;
   const fileInputRef = useRef<HTMLInputElement>(null);
   const rosterRef = useRef<HTMLDivElement>(null);
 
@@ -290,9 +485,11 @@ const App: React.FC = () => {
   }, [selectedMemberId]);
 
   useEffect(() => {
-    setData(loadData());
-    const bg = loadBackground();
-    if (bg) setBackgroundImage(bg);
+    loadData().then(loaded => {
+      markSaved(loaded);
+      resetData(loaded);
+    });
+    loadBackground().then(bg => { if (bg) setBackgroundImage(bg); });
     
     // Load settings
     const savedView = localStorage.getItem('nsh_roster_view_settings');
@@ -315,6 +512,22 @@ const App: React.FC = () => {
     }
   }, []);
 
+  // Shared roster in the URL hash (#share=...)
+  useEffect(() => {
+    const openShared = () => {
+      readShareFromLocation()
+        .then(shared => setSharedView(shared))
+        .catch(err => {
+          console.error("Invalid share link", err);
+          alert("分享链接无效或已损坏。");
+          clearShareFromLocation();
+        });
+    };
+    openShared();
+    window.addEventListener('hashchange', openShared);
+    return () => window.removeEventListener('hashchange', openShared);
+  }, []);
+
   // Persist View Settings
   useEffect(() => {
     localStorage.setItem('nsh_roster_view_settings', JSON.stringify({ cardWidth, cardHeight, cardOpacity, metaFontSize }));
@@ -331,33 +544,98 @@ const App: React.FC = () => {
     localStorage.setItem('nsh_roster_theme', themeMode);
   }, [themeMode]);
 
+  const reloadFromStorage = useCallback(() => {
+    loadData().then(loaded => {
+      markSaved(loaded);
+      resetData(loaded);
+      setSyncConflict(false);
+    });
+  }, [resetData, markSaved]);
+
+  const handleKeepLocalVersion = () => {
+    save(true).then(result => { if (result === 'saved') setSyncConflict(false); });
+  };
+
+  // Another tab saved: follow it live, unless this tab holds edits that would be lost
+  useEffect(() => {
+    return subscribeRosterChanges(() => {
+      if (isDirty()) {
+        setSyncConflict(true);
+      } else {
+        reloadFromStorage();
+      }
+    });
+  }, [reloadFromStorage, isDirty]);
+
   const toggleTheme = () => {
     setThemeMode(prev => prev === 'light' ? 'dark' : 'light');
   };
 
   const handleSaveData = useCallback(() => {
-    saveData(data);
-    const btn = document.getElementById('save-btn');
-    if(btn) {
-      const originalText = btn.innerHTML;
-      btn.innerHTML = `<div class="flex items-center gap-1 text-emerald-100"><svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="20 6 9 17 4 12"></polyline></svg> 已保存</div>`;
-      setTimeout(() => btn.innerHTML = originalText, 1500);
-    }
-  }, [data]);
+    save();
+  }, [save]);
 
-  const handleExportJSON = () => {
-    const jsonString = JSON.stringify(data, null, 2);
-    const blob = new Blob([jsonString], { type: "application/json" });
+  const downloadFile = (content: string, type: string, fileName: string) => {
+    const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
     const link = document.createElement("a");
     link.href = url;
-    link.download = `NSH_Roster_${new Date().toISOString().slice(0,10)}.json`;
+    link.download = fileName;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
   };
 
+  const downloadJSON = (payload: AppData, fileName: string) => {
+    downloadFile(JSON.stringify(payload, null, 2), "application/json", fileName);
+  };
+
+  // Member pool with current positions; the files open in Excel/WPS and import back through 表格导入
+  const handleExportTable = async (format: 'csv' | 'tsv' | 'clipboard') => {
+    setShowTableExport(false);
+    const date = new Date().toISOString().slice(0,10);
+    if (format === 'csv') {
+      // The BOM makes Excel read the file as UTF-8
+      downloadFile('\uFEFF' + exportPoolTable(data, ','), "text/csv;charset=utf-8", `NSH_Members_${date}.csv`);
+    } else if (format === 'tsv') {
+      downloadFile(exportPoolTable(data, '\t'), "text/tab-separated-values;charset=utf-8", `NSH_Members_${date}.tsv`);
+    } else {
+      try {
+        await navigator.clipboard.writeText(exportPoolTable(data, '\t'));
+        alert(`已复制 ${data.pool.length} 名成员，可直接粘贴到表格中。`);
+      } catch (e) {
+        alert("复制失败，请改用下载。");
+      }
+    }
+  };
+
+  const handleExportJSON = () => {
+    downloadJSON(data, `NSH_Roster_${new Date().toISOString().slice(0,10)}.json`);
+  };
+
+  // Read-only snapshot of the active plan; host it and open with ?view=<file url>
+  const handlePublishJSON = () => {
+    downloadJSON(buildShareData(data), `NSH_Roster_Published_${new Date().toISOString().slice(0,10)}.json`);
+  };
+
+  const handleCloseShared = () => {
+    setSharedView(null);
+    clearShareFromLocation();
+  };
+
+  // Old saves and files from other guilds are upgraded to the current shape before merging
+  const openImportPreview = (fileName: string, rawData: AppData) => {
+    setMergeImport({ fileName, incoming: syncActivePlan(migrateData(rawData)) });
+  };
+
+  const applyImport = (imported: AppData) => {
+    setData(imported);
+    setMergeImport(null);
+    if (sharedView) handleCloseShared();
+    alert("导入成功！");
+  };
+
   const handleImportJSON = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -367,29 +645,15 @@ const App: React.FC = () => {
       try {
         const content = event.target?.result as string;
         const parsedData = JSON.parse(content);
-        if (parsedData.pool && Array.isArray(parsedData.pool) && parsedData.groups && Array.isArray(parsedData.groups)) {
-            if(window.confirm("确定导入该配置？当前数据将被覆盖。")) {
-                // If gameConfig missing in import, try to rebuild it from pool
-                if (!parsedData.gameConfig) {
-                    const ults = new Set(DEFAULT_ULT_SKILLS);
-                    const clans = new Set(DEFAULT_CLAN_SKILLS);
-                    parsedData.pool.forEach((m: Member) => {
-                        if(m.ult !== '无') ults.add(m.ult);
-                        if(m.clan !== '无') clans.add(m.clan);
-                    });
-                    parsedData.gameConfig = {
-                        ultSkills: Array.from(ults),
-                        clanSkills: Array.from(clans),
-                        professionColors: CLASS_COLORS
-                    };
-                }
-
-                setData(parsedData);
-                saveData(parsedData);
-                alert("导入成功！");
-            }
+        const result = validateRosterData(parsedData);
+        if (result.fatal) {
+            alert(`无效的文件格式：${result.issues.map(i => `${i.path} ${i.message}`).join('；')}`);
+        } else if (result.repaired.schemaVersion > CURRENT_SCHEMA_VERSION) {
+            alert("该文件由更新版本的工具导出，请先刷新页面升级后再导入。");
+        } else if (result.issues.length > 0) {
+            setPendingImport({ fileName: file.name, data: result.repaired, issues: result.issues });
         } else {
-            alert("无效的文件格式。");
+            openImportPreview(file.name, result.repaired);
         }
       } catch (error) {
         console.error("Import error:", error);
@@ -400,71 +664,64 @@ const App: React.FC = () => {
     reader.readAsText(file);
   };
 
+  const handleCopyShareLink = async () => {
+    try {
+      const url = await createShareUrl(data);
+      try {
+        await navigator.clipboard.writeText(url);
+        alert(`分享链接已复制 (${url.length} 字符)。对方打开后将以只读方式查看当前方案。`);
+      } catch (clipboardError) {
+        window.prompt("请手动复制以下链接:", url);
+      }
+    } catch (e) {
+      console.error("Share link failed", e);
+      alert("生成分享链接失败。");
+    }
+  };
+
+  // Every board/pool edit goes through the roster engine; autosave picks up the result
+  const dispatch = useCallback((action: RosterAction, coalesceKey?: string) => {
+    setData(prev => rosterReducer(prev, action), coalesceKey);
+  }, []);
+
   const handlePoolUpdate = useCallback((newPool: Member[]) => {
-    setData(prev => {
-      const poolIds = new Set(newPool.map(m => m.id));
-      const newGroups = prev.groups.map(g => ({
-        ...g,
-        squads: g.squads.map(s => ({
-          ...s,
-          slots: s.slots.map(slot => ({
-            ...slot,
-            memberId: slot.memberId && poolIds.has(slot.memberId) ? slot.memberId : null
-          }))
-        }))
-      }));
-      const newData = { ...prev, groups: newGroups, pool: newPool };
-      saveData(newData);
-      return newData;
-    });
+    dispatch({ type: 'setPool', pool: stampJoinDates(newPool, dataRef.current.pool) });
+  }, []);
+
+  const handleMergeMembers = useCallback((survivorId: string, duplicateId: string, asCharacterId?: string) => {
+    dispatch({ type: 'mergeMembers', survivorId, duplicateId, asCharacterId });
   }, []);
 
   const handleStructureUpdate = useCallback((newData: AppData) => {
     setData(newData);
-    saveData(newData);
   }, []);
   
+  const handlePlanChange = useCallback((newData: AppData) => {
+    setSelectedMemberId(null);
+    setCompareBase(null);
+    setData(newData);
+  }, []);
+
+  const handleSetAttendance = useCallback((memberIds: string[], status: AttendanceStatus) => {
+    const planId = dataRef.current.activePlanId;
+    if (planId) dispatch({ type: 'setAttendance', memberIds, planId, status });
+  }, []);
+
   const handleGameConfigUpdate = useCallback((newConfig: GameConfig) => {
-    setData(prev => {
-      const newData = { ...prev, gameConfig: newConfig };
-      saveData(newData);
-      return newData;
-    });
+    dispatch({ type: 'setGameConfig', config: newConfig });
   }, []);
 
   const handleSlotClick = useCallback((groupIdx: number, squadIdx: number, slotIdx: number) => {
     const currentSelectedId = selectedMemberIdRef.current;
-    setData(prev => {
-      if (currentSelectedId) {
-        // Mode: Placing a selected member
-        const newData = JSON.parse(JSON.stringify(prev)) as AppData;
-        
-        // Remove from old location if any
-        newData.groups.forEach(g => g.squads.forEach(s => s.slots.forEach(sl => {
-          if (sl.memberId === currentSelectedId) {
-            sl.memberId = null;
-          }
-        })));
-        
-        // Assign to new location
-        newData.groups[groupIdx].squads[squadIdx].slots[slotIdx].memberId = currentSelectedId;
-        saveData(newData);
-        return newData;
-      } else {
-        // Mode: Clicking an existing slot to remove
-        const slot = prev.groups[groupIdx].squads[squadIdx].slots[slotIdx];
-        if (slot.memberId) {
-          if (window.confirm("移出该成员?")) {
-             const newData = JSON.parse(JSON.stringify(prev)) as AppData;
-             newData.groups[groupIdx].squads[squadIdx].slots[slotIdx].memberId = null;
-             saveData(newData);
-             return newData;
-          }
-        }
-        return prev;
-      }
-    });
-    if (currentSelectedId) setSelectedMemberId(null);
+    const at = { gIdx: groupIdx, sIdx: squadIdx, slotIdx };
+    if (currentSelectedId) {
+      // Mode: Placing a selected member
+      dispatch({ type: 'assign', memberId: currentSelectedId, to: at });
+      setSelectedMemberId(null);
+    } else if (dataRef.current.groups[groupIdx]?.squads[squadIdx]?.slots[slotIdx]?.memberId) {
+      // Mode: Clicking an existing slot to remove
+      if (window.confirm("移出该成员?")) dispatch({ type: 'unassign', at });
+    }
   }, []);
 
   // --- Drag and Drop Logic ---
@@ -480,70 +737,119 @@ const App: React.FC = () => {
 
      try {
        const dragData = JSON.parse(dataRaw);
-       setData(prev => {
-         const newData = JSON.parse(JSON.stringify(prev)) as AppData;
-         
-         const targetMemberId = newData.groups[gIdx].squads[sIdx].slots[slotIdx].memberId;
-         const sourceMemberId = dragData.memberId;
-
-         // Case 1: Drag from Sidebar
-         if (dragData.type === 'sidebar') {
-           // Remove from anywhere else first
-           newData.groups.forEach(g => g.squads.forEach(s => s.slots.forEach(sl => {
-             if (sl.memberId === sourceMemberId) sl.memberId = null;
-           })));
-           
-           // Place in target (overwrite if exists)
-           newData.groups[gIdx].squads[sIdx].slots[slotIdx].memberId = sourceMemberId;
-         }
-         
-         // Case 2: Drag from another Slot
-         if (dragData.type === 'slot') {
-            const sourceG = dragData.gIdx;
-            const sourceS = dragData.sIdx;
-            const sourceSl = dragData.slotIdx;
-
-            // Perform Swap
-            newData.groups[gIdx].squads[sIdx].slots[slotIdx].memberId = sourceMemberId;
-            newData.groups[sourceG].squads[sourceS].slots[sourceSl].memberId = targetMemberId;
-         }
-
-         saveData(newData);
-         return newData;
-       });
+       const to = { gIdx, sIdx, slotIdx };
+
+       // Case 1: Drag from Sidebar
+       if (dragData.type === 'sidebar') {
+         dispatch({ type: 'assign', memberId: dragData.memberId, to });
+       }
+
+       // Case 2: Drag from another Slot
+       if (dragData.type === 'slot') {
+         dispatch({ type: 'swap', from: { gIdx: dragData.gIdx, sIdx: dragData.sIdx, slotIdx: dragData.slotIdx }, to });
+       }
+
+       // Case 3: Drag from a substitute bench
+       if (dragData.type === 'bench') {
+         dispatch({ type: 'promote', memberId: dragData.memberId, to });
+       }
      } catch (err) {
        console.error("Drop failed", err);
      }
   }, []);
 
-  const handleSlotRightClick = useCallback((e: React.MouseEvent, memberId: string) => {
+  // --- Substitute Bench ---
+  const handleBenchDragStart = useCallback((e: React.DragEvent, memberId: string) => {
+    e.dataTransfer.setData('text/plain', JSON.stringify({ type: 'bench', memberId }));
+    e.dataTransfer.effectAllowed = 'move';
+  }, []);
+
+  const handleBenchDrop = useCallback((e: React.DragEvent, to: BenchRef) => {
+    const dataRaw = e.dataTransfer.getData('text/plain');
+    if (!dataRaw) return;
+    try {
+      const dragData = JSON.parse(dataRaw);
+      if (dragData.memberId) dispatch({ type: 'bench', memberId: dragData.memberId, to });
+    } catch (err) {
+      console.error("Bench drop failed", err);
+    }
+  }, []);
+
+  const handleBenchClick = useCallback((to: BenchRef) => {
+    const currentSelectedId = selectedMemberIdRef.current;
+    if (!currentSelectedId) return;
+    dispatch({ type: 'bench', memberId: currentSelectedId, to });
+    setSelectedMemberId(null);
+  }, []);
+
+  const handleBenchRemove = useCallback((memberId: string) => {
+    dispatch({ type: 'unbench', memberId });
+  }, []);
+
+  const handleSlotRightClick = useCallback((e: React.MouseEvent, memberId: string, at: SlotRef) => {
     e.preventDefault();
     setData(currentData => {
       const member = currentData.pool.find(m => m.id === memberId);
-      if (member) setContextMenu({ member, pos: { x: e.clientX, y: e.clientY } });
+      if (member) setContextMenu({ member, at, pos: { x: e.clientX, y: e.clientY } });
       return currentData;
     });
   }, []);
 
+  const handleSelectCharacter = useCallback((at: SlotRef, characterId?: string) => {
+    dispatch({ type: 'setCharacter', at, characterId });
+  }, []);
+
+  // Scroll the board to a placed member's slot or bench chip and flash it briefly
+  const handleLocateMember = useCallback((memberId: string) => {
+    setLocatedMemberId(memberId);
+    rosterRef.current?.querySelector(`[data-member-id="${CSS.escape(memberId)}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center', inline: 'center' });
+  }, []);
+
+  useEffect(() => {
+    if (!locatedMemberId) return;
+    const timer = setTimeout(() => setLocatedMemberId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [locatedMemberId]);
+
   const handleUpdateMemberSkill = useCallback((updatedMember: Member) => {
-    setData(prev => {
-      const newPool = prev.pool.map(m => m.id === updatedMember.id ? updatedMember : m);
-      const newData = { ...prev, pool: newPool };
-      saveData(newData);
-      return newData;
-    });
+    dispatch({ type: 'updateMember', member: updatedMember });
   }, []);
   
   const handleSquadNameChange = useCallback((groupIdx: number, squadIdx: number, val: string) => {
-      setData(prev => {
-        const newGroups = [...prev.groups];
-        const newSquads = [...newGroups[groupIdx].squads];
-        newSquads[squadIdx] = { ...newSquads[squadIdx], name: val };
-        newGroups[groupIdx] = { ...newGroups[groupIdx], squads: newSquads };
-        return { ...prev, groups: newGroups };
-      });
+      dispatch({ type: 'renameSquad', at: { gIdx: groupIdx, sIdx: squadIdx }, name: val }, `squad-name-${groupIdx}-${squadIdx}`);
   }, []);
 
+  const handleUndo = useCallback(() => {
+    undo();
+  }, [undo]);
+
+  const handleRedo = useCallback(() => {
+    redo();
+  }, [redo]);
+
+  const isModalOpen = showMemberEditor || showAttendance || showHistory || showStructureEditor || showGameConfig || !!contextMenu || !!pendingImport || !!mergeImport;
+
+  // Ctrl+Z / Ctrl+Shift+Z (Ctrl+Y) outside of text inputs, which keep their native undo
+  useEffect(() => {
+    if (exportMode || sharedView || isModalOpen) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [exportMode, sharedView, isModalOpen, handleUndo, handleRedo]);
+
   const handleBackgroundUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -551,8 +857,7 @@ const App: React.FC = () => {
       reader.onloadend = async () => {
         const res = reader.result as string;
         setBackgroundImage(res);
-        const saved = await saveBackground(res);
-        if (saved !== res) setBackgroundImage(saved);
+        await saveBackground(res);
         setShowBgPicker(false);
       };
       reader.readAsDataURL(file);
@@ -588,6 +893,13 @@ const App: React.FC = () => {
     }, 500);
   };
 
+  // Archived members keep their data but are left out of the sidebar
+  const activePool = useMemo(() => data.pool.filter(m => !m.archived), [data.pool]);
+
+  // The board shows a shared roster instead of our own while one is open
+  const boardData = sharedView || data;
+  const isEditable = !exportMode && !sharedView;
+
   // Stats Calculation
   const stats = useMemo(() => {
     let count = 0;
@@ -595,22 +907,48 @@ const App: React.FC = () => {
     data.groups.forEach(g => g.squads.forEach(s => s.slots.forEach(sl => {
       if (sl.memberId) {
         count++;
-        const m = data.pool.find(x => x.id === sl.memberId);
+        const owner = data.pool.find(x => x.id === sl.memberId);
+        const m = owner && deployedAs(owner, sl.characterId);
         if (m) profCounts[m.profession] = (profCounts[m.profession] || 0) + 1;
       }
     })));
     const sortedProfs = Object.entries(profCounts).sort((a,b) => b[1] - a[1]);
-    return { count, sortedProfs };
+
+    // Attribute totals per group, with the per-squad breakdown for the tooltip
+    const sumStats = (memberIds: (string | null)[]) => {
+      const totals: Record<MemberStatKey, number> = { power: 0, level: 0, gear: 0 };
+      memberIds.forEach(id => {
+        const m = id ? data.pool.find(x => x.id === id) : undefined;
+        if (m) MEMBER_STATS.forEach(({ key }) => { totals[key] += m[key] || 0; });
+      });
+      return totals;
+    };
+    const groupTotals = data.groups.map(g => ({
+      id: g.id,
+      name: g.name,
+      totals: sumStats(g.squads.flatMap(s => s.slots.map(sl => sl.memberId))),
+      squads: g.squads.map(s => ({ name: s.name, totals: sumStats(s.slots.map(sl => sl.memberId)) }))
+    }));
+    const totalPower = groupTotals.reduce((sum, g) => sum + g.totals.power, 0);
+
+    const absentPlaced = data.pool.filter(m => getAttendance(m, data.activePlanId) === 'leave' && data.groups.some(g => g.squads.some(s => s.slots.some(sl => sl.memberId === m.id))));
+    const benchCount = collectBenchIds(data.groups).size;
+    return { count, sortedProfs, groupTotals, totalPower, absentPlaced, benchCount };
   }, [data]);
 
-  const profColors = data.gameConfig?.professionColors || CLASS_COLORS;
+  const describeTotals = (totals: Record<MemberStatKey, number>) =>
+    MEMBER_STATS.filter(({ key }) => totals[key] > 0).map(({ key, label }) => `${label} ${totals[key].toLocaleString()}`).join(' / ') || '暂无数值';
+
+  const profColors = boardData.gameConfig?.professionColors || CLASS_COLORS;
+
+  const rosterDiff = useMemo(() => compareBase ? diffRosters(compareBase.data, data) : null, [compareBase, data]);
 
   // Split groups into rows based on newLine config
   const groupRows = useMemo(() => {
-    const rows: (typeof data.groups)[] = [];
-    let currentRow: typeof data.groups = [];
+    const rows: (typeof boardData.groups)[] = [];
+    let currentRow: typeof boardData.groups = [];
     
-    data.groups.forEach(g => {
+    boardData.groups.forEach(g => {
       if (g.newLine && currentRow.length > 0) {
         rows.push(currentRow);
         currentRow = [];
@@ -619,7 +957,7 @@ const App: React.FC = () => {
     });
     if (currentRow.length > 0) rows.push(currentRow);
     return rows;
-  }, [data.groups]);
+  }, [boardData.groups]);
 
   return (
     <div className={`flex h-screen w-screen overflow-hidden font-sans text-slate-800 dark:text-slate-100 relative ${themeMode === 'dark' ? 'bg-[#0f172a]' : 'bg-gray-50'}`}>
@@ -629,25 +967,80 @@ const App: React.FC = () => {
       />
       
       {/* Sidebar */}
-      {!exportMode && (
+      {isEditable && (
         <MemberSidebar 
-          members={data.pool} 
+          members={activePool} 
           data={data}
           selectedMemberId={selectedMemberId} 
           professionColors={profColors}
           onSelectMember={m => setSelectedMemberId(selectedMemberId === m.id ? null : m.id)}
+          onSetAttendance={(memberId, status) => handleSetAttendance([memberId], status)}
+          onLocateMember={handleLocateMember}
         />
       )}
 
       {/* Right Content */}
       <div className="flex-1 flex flex-col h-full z-10 relative overflow-hidden bg-slate-50/30 dark:bg-slate-900/50 backdrop-blur-[2px]">
+
+        {/* Shared Roster Banner */}
+        {sharedView && !exportMode && (
+          <div className="bg-teal-50 dark:bg-teal-900/30 border-b border-teal-200 dark:border-teal-800 px-4 py-2 flex items-center gap-3 text-sm text-teal-800 dark:text-teal-200 z-30">
+            <Share2 size={16} className="shrink-0" />
+            <span className="flex-1">正在查看分享的阵容（只读）</span>
+            <button onClick={() => openImportPreview('分享链接', sharedView)} className="px-3 py-1 rounded border border-teal-300 dark:border-teal-700 hover:bg-teal-100 dark:hover:bg-teal-800/50 font-bold transition-colors">
+              导入到我的数据
+            </button>
+            <button onClick={handleCloseShared} className="px-3 py-1 rounded bg-primary hover:bg-primary/90 text-white font-bold transition-colors">
+              返回我的排布
+            </button>
+          </div>
+        )}
+
+        {/* Cross-tab Conflict Banner */}
+        {syncConflict && isEditable && (
+          <div className="bg-amber-50 dark:bg-amber-900/30 border-b border-amber-200 dark:border-amber-800 px-4 py-2 flex items-center gap-3 text-sm text-amber-800 dark:text-amber-200 z-30">
+            <AlertTriangle size={16} className="shrink-0" />
+            <span className="flex-1">排布已在另一个标签页中被修改，而当前页面的修改尚未同步。请选择保留哪个版本：</span>
+            <button onClick={reloadFromStorage} className="px-3 py-1 rounded border border-amber-300 dark:border-amber-700 hover:bg-amber-100 dark:hover:bg-amber-800/50 font-bold transition-colors">
+              载入最新版本
+            </button>
+            <button onClick={handleKeepLocalVersion} className="px-3 py-1 rounded bg-amber-500 hover:bg-amber-600 text-white font-bold transition-colors">
+              保留我的修改
+            </button>
+          </div>
+        )}
         
         {/* Stats Bar */}
-        {!exportMode && (
+        {isEditable && (
           <div className="bg-white dark:bg-slate-800 border-b border-gray-200 dark:border-slate-700 px-4 py-2 flex items-center text-xs text-gray-600 dark:text-gray-300 select-none shadow-sm z-20 gap-4 transition-colors">
             <span className="font-bold text-primary flex items-center gap-2 bg-primary/5 dark:bg-primary/20 px-2 py-1 rounded">
                <LayoutGrid size={14}/> 总人数: {stats.count}
             </span>
+            {stats.benchCount > 0 && (
+              <span className="flex items-center gap-1 text-gray-500 dark:text-gray-400 whitespace-nowrap"><Armchair size={14}/> 替补: {stats.benchCount}</span>
+            )}
+            {stats.absentPlaced.length > 0 && (
+              <span className="font-bold text-red-600 dark:text-red-400 flex items-center gap-1.5 bg-red-50 dark:bg-red-900/30 px-2 py-1 rounded whitespace-nowrap" title={stats.absentPlaced.map(m => m.name).join('、')}>
+                <AlertTriangle size={14}/> {stats.absentPlaced.length} 名请假成员在阵容中
+              </span>
+            )}
+            {stats.totalPower > 0 && (
+              <>
+                <span className="font-bold text-gray-700 dark:text-gray-200 font-mono whitespace-nowrap">总战力: {stats.totalPower.toLocaleString()}</span>
+                <div className="flex gap-2 overflow-x-auto no-scrollbar max-w-[40%]">
+                  {stats.groupTotals.map(g => (
+                    <div
+                      key={g.id}
+                      className="flex items-center gap-1.5 bg-gray-50 dark:bg-slate-700 px-2 py-0.5 rounded border border-gray-100 dark:border-slate-600 whitespace-nowrap cursor-help"
+                      title={[`${g.name}: ${describeTotals(g.totals)}`, ...g.squads.map(s => `  ${s.name}: ${describeTotals(s.totals)}`)].join('\n')}
+                    >
+                      <span className="text-gray-500 dark:text-gray-300">{g.name}</span>
+                      <span className="font-mono font-bold text-gray-900 dark:text-white">{g.totals.power.toLocaleString()}</span>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
             <div className="h-4 w-px bg-gray-300 dark:bg-slate-600"></div>
             <div className="flex gap-2 overflow-x-auto no-scrollbar flex-1">
               {stats.sortedProfs.map(([prof, cnt]) => (
@@ -662,8 +1055,21 @@ const App: React.FC = () => {
         )}
 
         {/* Toolbar */}
-        {!exportMode && (
+        {isEditable && (
           <div className="bg-white dark:bg-slate-800 p-3 flex items-center gap-3 border-b border-gray-200 dark:border-slate-700 shadow-sm relative z-20 transition-colors">
+            <PlanSwitcher data={data} onChange={handlePlanChange} />
+
+            <div className="flex gap-1">
+              <button onClick={handleUndo} disabled={!canUndo} className="btn-toolbar disabled:opacity-40 disabled:pointer-events-none" title="撤销 (Ctrl+Z)">
+                <Undo2 size={16} />
+              </button>
+              <button onClick={handleRedo} disabled={!canRedo} className="btn-toolbar disabled:opacity-40 disabled:pointer-events-none" title="重做 (Ctrl+Shift+Z)">
+                <Redo2 size={16} />
+              </button>
+            </div>
+
+            <div className="h-6 w-px bg-gray-200 dark:bg-slate-600 mx-2" />
+
             <div className="flex gap-2">
               <button onClick={() => setShowStructureEditor(true)} className="btn-toolbar">
                 <Settings size={16} /> 架构
@@ -671,6 +1077,12 @@ const App: React.FC = () => {
               <button onClick={() => setShowMemberEditor(true)} className="btn-toolbar">
                 <Settings size={16} /> 成员
               </button>
+              <button onClick={() => setShowAttendance(true)} className="btn-toolbar" title="登记本方案的报名与请假">
+                <CalendarCheck size={16} /> 出勤
+              </button>
+              <button onClick={() => setShowHistory(true)} className="btn-toolbar" title="归档已结束的活动并查看出场统计">
+                <History size={16} /> 出场
+              </button>
               <button onClick={() => setShowGameConfig(true)} className="btn-toolbar" title="配置绝技、百家及颜色">
                 <Gamepad2 size={16} /> 全局配置
               </button>
@@ -686,6 +1098,27 @@ const App: React.FC = () => {
                 <Upload size={16} /> 导入
               </button>
               <input type="file" accept=".json" className="hidden" ref={fileInputRef} onChange={handleImportJSON} />
+              <div className="relative">
+                <button onClick={() => setShowTableExport(!showTableExport)} className={`btn-toolbar ${showTableExport ? 'bg-gray-100 dark:bg-slate-700 text-primary border-primary' : 'text-secondary dark:text-slate-400 hover:text-primary dark:hover:text-primary'}`} title="导出成员表格 (含当前位置)">
+                  <Sheet size={16} /> 表格
+                </button>
+                {showTableExport && (
+                  <div className="absolute top-full left-0 mt-2 w-48 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-600 rounded-lg shadow-xl py-1 z-50 animate-in slide-in-from-top-2 text-sm">
+                    <button onClick={() => handleExportTable('csv')} className="w-full text-left px-4 py-2 hover:bg-gray-50 dark:hover:bg-slate-700">下载 CSV (Excel)</button>
+                    <button onClick={() => handleExportTable('tsv')} className="w-full text-left px-4 py-2 hover:bg-gray-50 dark:hover:bg-slate-700">下载 TSV</button>
+                    <button onClick={() => handleExportTable('clipboard')} className="w-full text-left px-4 py-2 hover:bg-gray-50 dark:hover:bg-slate-700">复制到剪贴板</button>
+                  </div>
+                )}
+              </div>
+              <button onClick={() => setShowDiffPanel(!showDiffPanel)} className={`btn-toolbar ${showDiffPanel ? 'bg-gray-100 dark:bg-slate-700 text-primary border-primary' : ''}`} title="与其他方案或快照对比">
+                <GitCompare size={16} /> 对比
+              </button>
+              <button onClick={handleCopyShareLink} className="btn-toolbar text-secondary dark:text-slate-400 hover:text-primary dark:hover:text-primary" title="复制当前方案的只读分享链接">
+                <Share2 size={16} /> 分享
+              </button>
+              <button onClick={handlePublishJSON} className="btn-toolbar text-secondary dark:text-slate-400 hover:text-primary dark:hover:text-primary" title="下载只读快照，放到站点后用 ?view=文件地址 打开查看模式">
+                <Globe size={16} /> 发布
+              </button>
             </div>
 
             <div className="h-6 w-px bg-gray-200 dark:bg-slate-600 mx-2" />
@@ -727,7 +1160,7 @@ const App: React.FC = () => {
                           <span>{metaFontSize}px</span>
                         </div>
                         <input 
-                          type="range" min="10" max="16" step="1" 
+                          type="range" min="10" max="24" step="1" 
                           value={metaFontSize} onChange={e => setMetaFontSize(Number(e.target.value))}
                           className="w-full accent-primary h-1 bg-gray-200 rounded-lg appearance-none cursor-pointer"
                         />
@@ -792,7 +1225,8 @@ const App: React.FC = () => {
                <button onClick={() => setExportMode(true)} className="bg-white dark:bg-slate-800 hover:bg-gray-50 dark:hover:bg-slate-700 text-primary border border-primary font-bold px-4 py-1.5 rounded flex items-center gap-2 text-sm transition-colors">
                  <Download size={16} /> 截图预览
                </button>
-               <button id="save-btn" onClick={handleSaveData} className="bg-primary hover:bg-primary/90 text-white font-bold px-6 py-1.5 rounded flex items-center gap-2 text-sm transition-colors shadow-md shadow-primary/20">
+               <SaveIndicator status={saveStatus} savedAt={savedAt} />
+               <button onClick={handleSaveData} disabled={saveStatus === 'saving'} className="bg-primary hover:bg-primary/90 text-white font-bold px-6 py-1.5 rounded flex items-center gap-2 text-sm transition-colors shadow-md shadow-primary/20 disabled:opacity-60">
                  <Save size={16} /> 保存
                </button>
             </div>
@@ -801,6 +1235,10 @@ const App: React.FC = () => {
 
         {exportMode && (
           <div className="absolute top-6 right-6 z-50 flex gap-4">
+             <label className="bg-white dark:bg-slate-800 text-gray-700 dark:text-gray-200 px-4 py-2 rounded-full shadow-xl font-bold flex items-center gap-2 border border-gray-200 dark:border-slate-700 cursor-pointer select-none text-sm">
+               <input type="checkbox" checked={exportBench} onChange={e => setExportBench(e.target.checked)} className="accent-primary" />
+               包含替补
+             </label>
              <button onClick={handleScreenshot} className="bg-primary hover:bg-primary/90 text-white px-6 py-2 rounded-full shadow-xl font-bold flex items-center gap-2 transition-all hover:scale-105">
                <Download size={18} /> 确认导出
              </button>
@@ -832,13 +1270,13 @@ const App: React.FC = () => {
           )}
 
           {/* Canvas - Render Groups by Row */}
-          <div className="flex flex-col gap-6 p-6 min-w-max">
+          <div className="flex flex-col gap-6 p-6 min-w-full items-center">
             {groupRows.map((row, rIdx) => (
-              <div key={rIdx} className="flex flex-row gap-6">
+              <div key={rIdx} className="flex flex-row gap-6 justify-center">
                 {row.map((group, gIdx) => {
-                  const themeColor = group.color || (group.theme ? THEME_CONFIG[group.theme]?.border : THEME_CONFIG["进攻(红)"].border);
+                  const themeColor = group.color || GROUP_COLORS[0].value;
                   const themeBg = hexToRgba(themeColor, 0.2);
-                  const strategyTag = group.strategy || (group.theme ? THEME_CONFIG[group.theme]?.label : "综合");
+                  const strategyTag = group.strategy || "综合";
 
                   return (
                     <div key={group.id} className="flex flex-col animate-in fade-in duration-500 h-full">
@@ -869,25 +1307,51 @@ const App: React.FC = () => {
                               <SquadColumn 
                                   key={squad.id}
                                   squad={squad}
-                                  gIdx={data.groups.indexOf(group)}
+                                  gIdx={boardData.groups.indexOf(group)}
                                   sIdx={sIdx}
-                                  pool={data.pool}
-                                  isExportMode={exportMode}
+                                  pool={boardData.pool}
+                                  isExportMode={!isEditable}
                                   selectedMemberId={selectedMemberId}
                                   cardWidth={cardWidth}
                                   cardHeight={cardHeight}
                                   cardOpacity={cardOpacity}
                                   metaFontSize={metaFontSize}
                                   professionColors={profColors}
+                                  changedSlots={isEditable ? rosterDiff?.changedSlots : undefined}
+                                  planId={boardData.activePlanId}
+                                  showBench={!exportMode || exportBench}
+                                  locatedMemberId={isEditable ? locatedMemberId : null}
                                   onSlotClick={handleSlotClick}
                                   onSlotRightClick={handleSlotRightClick}
                                   onSquadNameChange={handleSquadNameChange}
                                   onSlotDrop={handleSlotDrop}
                                   onSlotDragStart={handleSlotDragStart}
+                                  onBenchDrop={handleBenchDrop}
+                                  onBenchClick={handleBenchClick}
+                                  onBenchRemove={handleBenchRemove}
+                                  onBenchDragStart={handleBenchDragStart}
                               />
                             ))
                         )}
                       </div>
+                      {(!exportMode || exportBench) && (isEditable || (group.bench || []).length > 0) && (
+                        <div className="mt-2">
+                          <BenchArea
+                            label="团替补"
+                            memberIds={group.bench || []}
+                            benchRef={{ gIdx: boardData.groups.indexOf(group) }}
+                            pool={boardData.pool}
+                            professionColors={profColors}
+                            isExportMode={!isEditable}
+                            isDeploymentTarget={!!selectedMemberId}
+                            locatedMemberId={isEditable ? locatedMemberId : null}
+                            onDrop={handleBenchDrop}
+                            onClick={handleBenchClick}
+                            onRemove={handleBenchRemove}
+                            onDragStart={handleBenchDragStart}
+                          />
+                        </div>
+                      )}
                     </div>
                   );
                 })}
@@ -899,7 +1363,7 @@ const App: React.FC = () => {
           </div>
         </div>
 
-        {selectedMemberId && !exportMode && (
+        {selectedMemberId && isEditable && (
           <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-50 animate-in slide-in-from-bottom-4 fade-in duration-200">
              <div className="bg-white dark:bg-slate-800 text-gray-800 dark:text-white pl-6 pr-2 py-2 rounded-full shadow-2xl font-bold flex items-center gap-4 border border-gray-200 dark:border-slate-600 ring-1 ring-gray-100 dark:ring-slate-700">
                <div className="flex items-center gap-2">
@@ -915,11 +1379,36 @@ const App: React.FC = () => {
         )}
       </div>
 
+      {/* Compare Panel */}
+      {showDiffPanel && isEditable && (
+        <DiffPanel
+          data={data}
+          base={compareBase}
+          diff={rosterDiff}
+          onSelectBase={setCompareBase}
+          onClose={() => { setShowDiffPanel(false); setCompareBase(null); }}
+        />
+      )}
+
       {/* Modals */}
-      {showMemberEditor && <MemberEditorModal pool={data.pool} gameConfig={data.gameConfig || { ultSkills: DEFAULT_ULT_SKILLS, clanSkills: DEFAULT_CLAN_SKILLS }} onUpdatePool={handlePoolUpdate} onUpdateGameConfig={handleGameConfigUpdate} onClose={() => setShowMemberEditor(false)} />}
+      {showMemberEditor && <MemberEditorModal pool={data.pool} gameConfig={data.gameConfig || { ultSkills: DEFAULT_ULT_SKILLS, clanSkills: DEFAULT_CLAN_SKILLS }} onUpdatePool={handlePoolUpdate} onUpdateGameConfig={handleGameConfigUpdate} onClose={() => setShowMemberEditor(false)} historyStats={computeHistoryStats(data)} onMergeMembers={handleMergeMembers} />}
+      {showAttendance && <AttendanceModal data={data} onSetAttendance={handleSetAttendance} onClose={() => setShowAttendance(false)} />}
+      {showHistory && <HistoryModal data={data} onChange={handleStructureUpdate} onClose={() => setShowHistory(false)} />}
       {showStructureEditor && <StructureEditorModal data={data} onUpdateStructure={handleStructureUpdate} onClose={() => setShowStructureEditor(false)} />}
       {showGameConfig && <GameConfigModal config={data.gameConfig || { ultSkills: DEFAULT_ULT_SKILLS, clanSkills: DEFAULT_CLAN_SKILLS }} onUpdate={handleGameConfigUpdate} onClose={() => setShowGameConfig(false)} />}
-      {contextMenu && <SkillEditorModal member={contextMenu.member} gameConfig={data.gameConfig || { ultSkills: DEFAULT_ULT_SKILLS, clanSkills: DEFAULT_CLAN_SKILLS }} onUpdate={handleUpdateMemberSkill} onClose={() => setContextMenu(null)} position={contextMenu.pos} />}
+      {pendingImport && <ImportReportModal fileName={pendingImport.fileName} issues={pendingImport.issues} onConfirm={() => { openImportPreview(pendingImport.fileName, pendingImport.data); setPendingImport(null); }} onClose={() => setPendingImport(null)} />}
+      {mergeImport && <MergeImportModal fileName={mergeImport.fileName} current={data} incoming={mergeImport.incoming} onMerge={applyImport} onOverwrite={() => applyImport(mergeImport.incoming)} onClose={() => setMergeImport(null)} />}
+      {contextMenu && (
+        <SkillEditorModal
+          member={contextMenu.member}
+          characterId={data.groups[contextMenu.at.gIdx]?.squads[contextMenu.at.sIdx]?.slots[contextMenu.at.slotIdx]?.characterId}
+          gameConfig={data.gameConfig || { ultSkills: DEFAULT_ULT_SKILLS, clanSkills: DEFAULT_CLAN_SKILLS }}
+          onUpdate={handleUpdateMemberSkill}
+          onSelectCharacter={characterId => handleSelectCharacter(contextMenu.at, characterId)}
+          onClose={() => setContextMenu(null)}
+          position={contextMenu.pos}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,168 @@
+
+import React, { useState, useMemo } from 'react';
+import { AppData, AttendanceStatus, ATTENDANCE_STATUSES, CLASS_COLORS } from '../types';
+import { getActivePlan, getAttendance } from '../services/plans';
+import { Modal } from './Modals';
+import { Search, ClipboardList } from 'lucide-react';
+
+interface AttendanceModalProps {
+  data: AppData;
+  onSetAttendance: (memberIds: string[], status: AttendanceStatus) => void;
+  onClose: () => void;
+}
+
+// Sign-up status of every member for the active plan, editable one by one, for a selection, or from a pasted name list
+export const AttendanceModal: React.FC<AttendanceModalProps> = ({ data, onSetAttendance, onClose }) => {
+  const planId = data.activePlanId;
+  const profColors = data.gameConfig?.professionColors || CLASS_COLORS;
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filterStatus, setFilterStatus] = useState<AttendanceStatus | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [pasteText, setPasteText] = useState('');
+  const [pasteStatus, setPasteStatus] = useState<AttendanceStatus>('signed');
+  const activePool = useMemo(() => data.pool.filter(m => !m.archived), [data.pool]);
+
+  const counts = useMemo(() => {
+    const c: Record<AttendanceStatus, number> = { signed: 0, leave: 0, tentative: 0, none: 0 };
+    activePool.forEach(m => { c[getAttendance(m, planId)]++; });
+    return c;
+  }, [activePool, planId]);
+
+  const visibleMembers = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return activePool
+      .filter(m => !filterStatus || getAttendance(m, planId) === filterStatus)
+      .filter(m => !term || m.name.toLowerCase().includes(term) || m.profession.includes(term))
+      .sort((a, b) => a.profession.localeCompare(b.profession) || a.name.localeCompare(b.name));
+  }, [activePool, planId, filterStatus, searchTerm]);
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const allVisibleSelected = visibleMembers.length > 0 && visibleMembers.every(m => selected.has(m.id));
+  const toggleAllVisible = () => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      visibleMembers.forEach(m => allVisibleSelected ? next.delete(m.id) : next.add(m.id));
+      return next;
+    });
+  };
+
+  const handleApplySelected = (status: AttendanceStatus) => {
+    onSetAttendance(Array.from(selected), status);
+    setSelected(new Set());
+  };
+
+  const handleApplyPaste = () => {
+    const names = pasteText.split(/[\s,，、]+/).map(n => n.trim()).filter(Boolean);
+    if (names.length === 0) return;
+    const byName = new Map(activePool.map(m => [m.name.trim(), m.id]));
+    const ids = names.map(n => byName.get(n)).filter((id): id is string => !!id);
+    const missing = names.filter(n => !byName.has(n));
+    onSetAttendance(ids, pasteStatus);
+    setPasteText('');
+    const label = ATTENDANCE_STATUSES.find(s => s.key === pasteStatus)!.label;
+    alert(`已将 ${ids.length} 人设为「${label}」。${missing.length > 0 ? `\n未找到: ${missing.join('、')}` : ''}`);
+  };
+
+  return (
+    <Modal title={`出勤登记 - ${getActivePlan(data)?.name || ''}`} onClose={onClose} maxWidth="max-w-5xl">
+      <div className="flex h-[600px]">
+        {/* Member list */}
+        <div className="flex-1 flex flex-col min-w-0 border-r border-gray-100 dark:border-slate-700">
+          <div className="p-3 space-y-2 border-b border-gray-100 dark:border-slate-700">
+            <div className="flex gap-2 flex-wrap">
+              <button
+                onClick={() => setFilterStatus(null)}
+                className={`text-xs px-3 py-1.5 rounded-full border transition-colors ${!filterStatus ? 'bg-gray-800 dark:bg-slate-700 border-gray-800 dark:border-slate-600 text-white font-bold' : 'border-gray-200 dark:border-slate-600 text-gray-500'}`}
+              >
+                全部 {activePool.length}
+              </button>
+              {ATTENDANCE_STATUSES.map(s => (
+                <button
+                  key={s.key}
+                  onClick={() => setFilterStatus(filterStatus === s.key ? null : s.key)}
+                  className={`text-xs px-3 py-1.5 rounded-full border transition-colors ${s.className} ${filterStatus === s.key ? 'font-bold ring-2 ring-offset-1 ring-current dark:ring-offset-slate-800' : ''}`}
+                >
+                  {s.label} {counts[s.key]}
+                </button>
+              ))}
+            </div>
+            <div className="relative">
+              <Search size={16} className="absolute left-3 top-2.5 text-gray-400" />
+              <input
+                value={searchTerm}
+                onChange={e => setSearchTerm(e.target.value)}
+                placeholder="搜索成员..."
+                className="w-full bg-gray-50 dark:bg-slate-900 border border-gray-200 dark:border-slate-600 rounded-md pl-9 pr-3 py-2 text-sm outline-none focus:border-primary"
+              />
+            </div>
+            <div className="flex items-center gap-2 text-xs">
+              <label className="flex items-center gap-1.5 text-gray-500 cursor-pointer">
+                <input type="checkbox" checked={allVisibleSelected} onChange={toggleAllVisible} className="accent-primary" />
+                全选 ({selected.size})
+              </label>
+              <span className="ml-auto text-gray-400">将选中设为</span>
+              {ATTENDANCE_STATUSES.map(s => (
+                <button key={s.key} disabled={selected.size === 0} onClick={() => handleApplySelected(s.key)} className={`px-2 py-1 rounded border font-bold disabled:opacity-40 ${s.className}`}>
+                  {s.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-1">
+            {visibleMembers.length === 0 && <div className="text-sm text-gray-400 text-center mt-10">没有成员</div>}
+            {visibleMembers.map(m => {
+              const status = getAttendance(m, planId);
+              return (
+                <div key={m.id} className={`flex items-center gap-3 px-3 py-2 rounded border bg-white dark:bg-slate-800 ${selected.has(m.id) ? 'border-primary/50' : 'border-gray-100 dark:border-slate-700'}`}>
+                  <input type="checkbox" checked={selected.has(m.id)} onChange={() => toggle(m.id)} className="accent-primary" />
+                  <span className="text-white font-bold text-[10px] px-1.5 py-0.5 rounded shrink-0" style={{ backgroundColor: profColors[m.profession] || '#999' }}>{m.profession}</span>
+                  <span className="text-sm font-medium truncate flex-1">{m.name}</span>
+                  <div className="flex gap-1 shrink-0">
+                    {ATTENDANCE_STATUSES.map(s => (
+                      <button
+                        key={s.key}
+                        onClick={() => onSetAttendance([m.id], s.key)}
+                        className={`text-[11px] px-2 py-0.5 rounded border transition-all ${status === s.key ? `${s.className} font-bold` : 'border-transparent text-gray-400 hover:text-gray-600 dark:hover:text-gray-200'}`}
+                      >
+                        {s.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Paste a sign-up list */}
+        <div className="w-72 flex flex-col p-4 gap-3 bg-gray-50 dark:bg-slate-900">
+          <div className="text-sm font-bold flex items-center gap-2"><ClipboardList size={16} className="text-primary dark:text-teal-400" /> 按名单登记</div>
+          <div className="text-xs text-gray-500 dark:text-slate-400">粘贴群接龙或报名表中的名字，以空格、逗号或换行分隔。</div>
+          <textarea
+            value={pasteText}
+            onChange={e => setPasteText(e.target.value)}
+            placeholder={"Player1\nPlayer2\nPlayer3"}
+            className="flex-1 bg-white dark:bg-slate-800 border border-gray-300 dark:border-slate-600 rounded-md p-3 font-mono text-sm outline-none focus:border-primary resize-none"
+          />
+          <select
+            value={pasteStatus}
+            onChange={e => setPasteStatus(e.target.value as AttendanceStatus)}
+            className="bg-white dark:bg-slate-800 border border-gray-300 dark:border-slate-600 rounded-md p-2 text-sm outline-none focus:border-primary"
+          >
+            {ATTENDANCE_STATUSES.map(s => <option key={s.key} value={s.key}>设为「{s.label}」</option>)}
+          </select>
+          <button onClick={handleApplyPaste} disabled={!pasteText.trim()} className="bg-primary text-white font-bold px-4 py-2 rounded shadow hover:bg-primary/90 disabled:opacity-50">
+            应用名单
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
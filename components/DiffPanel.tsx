@@ -0,0 +1,119 @@
+
+import React, { useRef } from 'react';
+import { AppData } from '../types';
+import { RosterDiff, MemberMove } from '../services/diff';
+import { syncActivePlan } from '../services/plans';
+import { validateRosterData } from '../services/validation';
+import { migrateData } from '../services/migrations';
+import { GitCompare, X, Upload, UserPlus, UserMinus, ArrowRightLeft, ArrowRight } from 'lucide-react';
+
+export interface CompareBase {
+  key: string; // Plan id, or 'file:<name>' for snapshots loaded from disk
+  label: string;
+  data: AppData;
+}
+
+interface DiffPanelProps {
+  data: AppData;
+  base: CompareBase | null;
+  diff: RosterDiff | null;
+  onSelectBase: (base: CompareBase | null) => void;
+  onClose: () => void;
+}
+
+const Section: React.FC<{ title: string; icon: React.ReactNode; className: string; items: MemberMove[]; render: (m: MemberMove) => React.ReactNode }> = ({ title, icon, className, items, render }) => (
+  <div>
+    <div className={`flex items-center gap-2 text-xs font-bold uppercase tracking-wider mb-2 ${className}`}>
+      {icon} {title} <span className="font-mono">({items.length})</span>
+    </div>
+    {items.length === 0 ? (
+      <div className="text-xs text-gray-400 dark:text-slate-500 pl-6 mb-2">无</div>
+    ) : (
+      <div className="space-y-1">
+        {items.map(m => (
+          <div key={m.memberId} className="bg-white dark:bg-slate-800 border border-gray-100 dark:border-slate-700 rounded px-3 py-2 text-sm">
+            <div className="font-bold text-gray-800 dark:text-gray-100 truncate">{m.name}</div>
+            <div className="text-xs text-gray-500 dark:text-slate-400 flex items-center gap-1 min-w-0">{render(m)}</div>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+const DiffPanel: React.FC<DiffPanelProps> = ({ data, base, diff, onSelectBase, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const library = syncActivePlan(data);
+  const otherPlans = library.plans!.filter(p => p.id !== library.activePlanId);
+
+  const handleSelectPlan = (planId: string) => {
+    const plan = otherPlans.find(p => p.id === planId);
+    onSelectBase(plan ? { key: plan.id, label: plan.name, data: { ...library, groups: plan.groups } } : null);
+  };
+
+  const handleLoadSnapshot = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const result = validateRosterData(JSON.parse(event.target?.result as string));
+        if (result.fatal) {
+          alert("无效的快照文件。");
+        } else {
+          onSelectBase({ key: `file:${file.name}`, label: file.name, data: migrateData(result.repaired) });
+        }
+      } catch (error) {
+        console.error("Snapshot load error:", error);
+        alert("文件解析失败。");
+      }
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-white dark:bg-slate-800 border-l border-gray-200 dark:border-slate-700 w-80 flex-shrink-0 shadow-xl z-30 transition-colors duration-300">
+      <div className="p-4 border-b border-gray-100 dark:border-slate-700">
+        <h2 className="text-lg font-bold text-gray-800 dark:text-white mb-3 flex items-center gap-2">
+          <GitCompare size={20} className="text-primary dark:text-teal-400" />
+          方案对比
+          <button onClick={onClose} className="ml-auto text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 p-1 rounded-full hover:bg-gray-100 dark:hover:bg-slate-700"><X size={18} /></button>
+        </h2>
+        <label className="block text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1.5">对比基准</label>
+        <select
+          className="w-full bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded-md p-2 text-sm text-gray-800 dark:text-gray-200 focus:border-primary outline-none"
+          value={base && !base.key.startsWith('file:') ? base.key : ''}
+          onChange={e => handleSelectPlan(e.target.value)}
+        >
+          <option value="">{base?.key.startsWith('file:') ? `快照: ${base.label}` : '选择方案...'}</option>
+          {otherPlans.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        <button onClick={() => fileInputRef.current?.click()} className="mt-2 w-full flex items-center justify-center gap-2 text-xs text-gray-600 dark:text-gray-300 p-2 bg-gray-50 dark:bg-slate-700 hover:bg-gray-100 dark:hover:bg-slate-600 rounded-md border border-dashed border-gray-300 dark:border-slate-500 hover:border-primary transition-colors">
+          <Upload size={14} /> 载入已发布的 JSON 快照
+        </button>
+        <input type="file" accept=".json" className="hidden" ref={fileInputRef} onChange={handleLoadSnapshot} />
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4 bg-gray-50/30 dark:bg-slate-900/50">
+        {!diff || !base ? (
+          <div className="text-sm text-gray-400 dark:text-slate-500 text-center mt-10">选择一个方案或快照，与当前排布进行对比。</div>
+        ) : (
+          <>
+            <div className="text-xs text-gray-500 dark:text-slate-400 bg-amber-50 dark:bg-amber-900/20 border border-amber-100 dark:border-amber-900/30 rounded p-2">
+              相对「{base.label}」，当前排布有 <span className="font-bold text-amber-600 dark:text-amber-400">{diff.changedSlots.size}</span> 个位置变化，已在阵容图中高亮。
+            </div>
+            <Section title="新上阵" icon={<UserPlus size={14} />} className="text-emerald-600 dark:text-emerald-400" items={diff.added}
+              render={m => <span className="truncate">{m.to!.label}</span>} />
+            <Section title="被移出" icon={<UserMinus size={14} />} className="text-red-600 dark:text-red-400" items={diff.removed}
+              render={m => <span className="truncate">原 {m.from!.label}</span>} />
+            <Section title="调动" icon={<ArrowRightLeft size={14} />} className="text-amber-600 dark:text-amber-400" items={diff.moved}
+              render={m => <><span className="truncate">{m.from!.label}</span><ArrowRight size={12} className="shrink-0" /><span className="truncate font-semibold">{m.to!.label}</span></>} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DiffPanel;
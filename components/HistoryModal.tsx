@@ -0,0 +1,142 @@
+
+import React, { useState, useMemo } from 'react';
+import { AppData, CLASS_COLORS } from '../types';
+import { getActivePlan } from '../services/plans';
+import { archiveActivePlan, deleteArchivedEvent, computeHistoryStats, todayString } from '../services/history';
+import { Modal } from './Modals';
+import { Archive, Trash2, Search } from 'lucide-react';
+
+interface HistoryModalProps {
+  data: AppData;
+  onChange: (newData: AppData) => void;
+  onClose: () => void;
+}
+
+type StatsSort = 'played' | 'benchStreak' | 'name';
+
+// Archive of finished events plus the season totals derived from it
+export const HistoryModal: React.FC<HistoryModalProps> = ({ data, onChange, onClose }) => {
+  const profColors = data.gameConfig?.professionColors || CLASS_COLORS;
+  const events = data.history || [];
+  const stats = useMemo(() => computeHistoryStats(data), [data.history, data.pool]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [sortKey, setSortKey] = useState<StatsSort>('played');
+
+  const placedCount = useMemo(() => {
+    let count = 0;
+    data.groups.forEach(g => g.squads.forEach(s => s.slots.forEach(sl => { if (sl.memberId) count++; })));
+    return count;
+  }, [data.groups]);
+
+  const rows = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return data.pool
+      .filter(m => !term || m.name.toLowerCase().includes(term) || m.profession.includes(term))
+      .map(m => ({ member: m, stats: stats.get(m.id)! }))
+      .sort((a, b) => {
+        if (sortKey === 'name') return a.member.name.localeCompare(b.member.name);
+        if (sortKey === 'benchStreak') return b.stats.benchStreak - a.stats.benchStreak || a.stats.played - b.stats.played;
+        return a.stats.played - b.stats.played || b.stats.benchStreak - a.stats.benchStreak;
+      });
+  }, [data.pool, stats, searchTerm, sortKey]);
+
+  const handleArchive = () => {
+    if (placedCount === 0) {
+      alert("当前方案还没有安排任何成员。");
+      return;
+    }
+    const name = window.prompt("活动名称:", getActivePlan(data)?.name || '');
+    if (!name?.trim()) return;
+    const date = window.prompt("活动日期 (YYYY-MM-DD):", todayString());
+    if (!date) return;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date.trim())) {
+      alert("日期格式应为 YYYY-MM-DD。");
+      return;
+    }
+    onChange(archiveActivePlan(data, name.trim(), date.trim()));
+  };
+
+  const handleDelete = (eventId: string, name: string) => {
+    if (window.confirm(`删除出场记录「${name}」? 成员的出场统计会随之更新。`)) onChange(deleteArchivedEvent(data, eventId));
+  };
+
+  return (
+    <Modal title="出场记录" onClose={onClose} maxWidth="max-w-5xl">
+      <div className="flex h-[600px]">
+        {/* Archived events, newest first */}
+        <div className="w-80 flex flex-col border-r border-gray-100 dark:border-slate-700 bg-gray-50 dark:bg-slate-900">
+          <div className="p-4 border-b border-gray-100 dark:border-slate-700 space-y-2">
+            <button onClick={handleArchive} className="w-full bg-primary text-white font-bold px-4 py-2 rounded shadow hover:bg-primary/90 flex items-center justify-center gap-2">
+              <Archive size={16} /> 归档当前方案
+            </button>
+            <div className="text-xs text-gray-500 dark:text-slate-400">活动结束后归档，记录当前方案中上场 ({placedCount} 人) 与替补的成员。</div>
+          </div>
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-1">
+            {events.length === 0 && <div className="text-sm text-gray-400 text-center mt-10">暂无记录</div>}
+            {[...events].reverse().map(e => (
+              <div key={e.id} className="flex items-center gap-2 px-3 py-2 rounded border bg-white dark:bg-slate-800 border-gray-100 dark:border-slate-700 group">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium truncate">{e.name}</div>
+                  <div className="text-[11px] text-gray-400 font-mono">{e.date} · 上场 {e.played.length}{e.benched.length > 0 ? ` · 替补 ${e.benched.length}` : ''}</div>
+                </div>
+                <button onClick={() => handleDelete(e.id, e.name)} className="text-red-400 opacity-0 group-hover:opacity-100 hover:text-red-500 p-1 hover:bg-red-50 dark:hover:bg-red-900/20 rounded"><Trash2 size={14} /></button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Per-member totals */}
+        <div className="flex-1 flex flex-col min-w-0">
+          <div className="p-3 flex gap-2 border-b border-gray-100 dark:border-slate-700">
+            <div className="relative flex-1">
+              <Search size={16} className="absolute left-3 top-2.5 text-gray-400" />
+              <input
+                value={searchTerm}
+                onChange={e => setSearchTerm(e.target.value)}
+                placeholder="搜索成员..."
+                className="w-full bg-gray-50 dark:bg-slate-900 border border-gray-200 dark:border-slate-600 rounded-md pl-9 pr-3 py-2 text-sm outline-none focus:border-primary"
+              />
+            </div>
+            <select
+              value={sortKey}
+              onChange={e => setSortKey(e.target.value as StatsSort)}
+              className="bg-gray-50 dark:bg-slate-900 border border-gray-200 dark:border-slate-600 rounded-md px-2 text-sm outline-none focus:border-primary"
+            >
+              <option value="played">出场少优先</option>
+              <option value="benchStreak">久未出场</option>
+              <option value="name">按名字</option>
+            </select>
+          </div>
+          <div className="flex-1 overflow-y-auto custom-scrollbar">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-white dark:bg-slate-800 text-xs text-gray-500 dark:text-slate-400">
+                <tr className="border-b border-gray-100 dark:border-slate-700">
+                  <th className="text-left font-semibold px-4 py-2">成员</th>
+                  <th className="text-right font-semibold px-3 py-2">出场</th>
+                  <th className="text-right font-semibold px-3 py-2">替补</th>
+                  <th className="text-right font-semibold px-3 py-2">连续未出场</th>
+                  <th className="text-right font-semibold px-4 py-2">最近出场</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(({ member, stats: s }) => (
+                  <tr key={member.id} className="border-b border-gray-50 dark:border-slate-700/50 hover:bg-gray-50 dark:hover:bg-slate-700/30">
+                    <td className="px-4 py-1.5">
+                      <span className="text-white font-bold text-[10px] px-1.5 py-0.5 rounded mr-2" style={{ backgroundColor: profColors[member.profession] || '#999' }}>{member.profession}</span>
+                      {member.name}
+                      {member.archived && <span className="ml-1.5 text-[10px] text-gray-400 border border-gray-300 dark:border-slate-600 rounded px-1">已归档</span>}
+                    </td>
+                    <td className="text-right px-3 font-mono">{s.played}</td>
+                    <td className="text-right px-3 font-mono text-gray-500">{s.benched}</td>
+                    <td className={`text-right px-3 font-mono ${s.benchStreak >= 3 ? 'text-amber-600 dark:text-amber-400 font-bold' : 'text-gray-500'}`}>{s.benchStreak}</td>
+                    <td className="text-right px-4 font-mono text-gray-500">{s.lastPlayed || '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,53 @@
+
+import React from 'react';
+import { ValidationIssue } from '../services/validation';
+import { Modal } from './Modals';
+import { AlertTriangle, Wrench } from 'lucide-react';
+
+interface ImportReportProps {
+  fileName: string;
+  issues: ValidationIssue[];
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+export const ImportReportModal: React.FC<ImportReportProps> = ({ fileName, issues, onConfirm, onClose }) => {
+  return (
+    <Modal title="导入检查" onClose={onClose} maxWidth="max-w-3xl">
+      <div className="flex flex-col h-[520px]">
+        <div className="p-4 border-b border-gray-100 dark:border-slate-700 flex items-start gap-3 bg-amber-50 dark:bg-amber-900/20">
+          <AlertTriangle size={20} className="text-amber-500 shrink-0 mt-0.5" />
+          <div className="text-sm text-gray-700 dark:text-gray-200">
+            <div className="font-bold">{fileName} 中发现 {issues.length} 处问题</div>
+            <div className="text-xs text-gray-500 dark:text-slate-400 mt-1">以下问题均可自动修复。确认后将按修复结果导入，并覆盖当前数据。</div>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-2">
+          {issues.map((issue, i) => (
+            <div key={i} className="bg-gray-50 dark:bg-slate-900 border border-gray-200 dark:border-slate-700 rounded p-3 text-sm">
+              <div className="flex items-baseline gap-3">
+                <code className="text-xs font-mono text-primary dark:text-teal-400 shrink-0">{issue.path}</code>
+                <span className="text-gray-700 dark:text-gray-200">{issue.message}</span>
+              </div>
+              {issue.repair && (
+                <div className="flex items-center gap-1.5 text-xs text-gray-500 dark:text-slate-400 mt-1.5">
+                  <Wrench size={12} /> {issue.repair}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-3 p-4 border-t border-gray-100 dark:border-slate-700 bg-gray-50 dark:bg-slate-900">
+          <button onClick={onClose} className="bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600 text-gray-600 dark:text-gray-300 px-6 py-2.5 rounded-md font-bold transition-colors">
+            取消导入
+          </button>
+          <button onClick={onConfirm} className="bg-primary text-white font-bold px-6 py-2.5 rounded shadow-lg hover:bg-primary/90 transition-transform active:scale-95 flex items-center gap-2">
+            <Wrench size={16} /> 修复并导入
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -1,8 +1,27 @@
 
 
 import React, { useState, useMemo } from 'react';
-import { Member, AppData } from '../types';
-import { Search, Users, Filter, MousePointer2, GripVertical } from 'lucide-react';
+import { Member, AppData, MEMBER_STATS, MemberStatKey, AttendanceStatus, ATTENDANCE_STATUSES } from '../types';
+import { getAttendance } from '../services/plans';
+import { collectTags, getTagColor } from '../services/tags';
+import { computeHistoryStats } from '../services/history';
+import { memberProfessions, listCharacters } from '../services/characters';
+import {
+  MemberFilter, FilterPreset, EMPTY_FILTER, matchesMemberFilter, countAdvancedConditions, isFilterEmpty, compactFilter, describeFilter,
+  loadFilterPresets, saveFilterPresets
+} from '../services/memberFilters';
+import { generateId } from '../services/storage';
+import { Search, Users, Filter, MousePointer2, GripVertical, ArrowDownWideNarrow, Tag, MapPin, SlidersHorizontal, Bookmark, X } from 'lucide-react';
+
+type SortKey = 'profession' | 'name' | MemberStatKey | 'played' | 'benchStreak';
+
+const SORT_OPTIONS: { key: SortKey; label: string }[] = [
+  { key: 'profession', label: '按职业' },
+  { key: 'name', label: '按名字' },
+  ...MEMBER_STATS.map(({ key, label }) => ({ key, label: `按${label}` })),
+  { key: 'played', label: '出场少优先' },
+  { key: 'benchStreak', label: '久未出场' },
+];
 
 interface MemberSidebarProps {
   members: Member[];
@@ -10,6 +29,8 @@ interface MemberSidebarProps {
   selectedMemberId: string | null;
   professionColors: Record<string, string>;
   onSelectMember: (member: Member) => void;
+  onSetAttendance: (memberId: string, status: AttendanceStatus) => void;
+  onLocateMember: (memberId: string) => void;
 }
 
 const MemberSidebar: React.FC<MemberSidebarProps> = ({ 
@@ -17,35 +38,122 @@ const MemberSidebar: React.FC<MemberSidebarProps> = ({
   data,
   selectedMemberId, 
   professionColors,
-  onSelectMember 
+  onSelectMember,
+  onSetAttendance,
+  onLocateMember
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
-  const [filterProf, setFilterProf] = useState<string | null>(null);
+  const [sortKey, setSortKey] = useState<SortKey>('profession');
+  const [filter, setFilter] = useState<MemberFilter>(EMPTY_FILTER);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [presets, setPresets] = useState<FilterPreset[]>(loadFilterPresets);
+  const [showAssigned, setShowAssigned] = useState(false); // List placed members too, with where they are
+  const planId = data.activePlanId;
+
+  // Benched members count as assigned: they already have a place in the plan
+  const placements = useMemo(() => {
+    const labels = new Map<string, string>();
+    data.groups.forEach(g => {
+      g.squads.forEach(s => {
+        s.slots.forEach(slot => { if (slot.memberId) labels.set(slot.memberId, `${g.name} / ${s.name}`); });
+        s.bench?.forEach(id => labels.set(id, `${g.name} / ${s.name} 替补`));
+      });
+      g.bench?.forEach(id => labels.set(id, `${g.name} 团替补`));
+    });
+    return labels;
+  }, [data.groups]);
 
-  const assignedMemberIds = useMemo(() => {
-    const ids = new Set<string>();
-    data.groups.forEach(g => g.squads.forEach(s => s.slots.forEach(slot => {
-      if (slot.memberId) ids.add(slot.memberId);
-    })));
-    return ids;
-  }, [data]);
+  const historyStats = useMemo(() => computeHistoryStats(data), [data.history, data.pool]);
+  const hasHistory = (data.history?.length ?? 0) > 0;
 
   const availableMembers = useMemo(() => {
-    return members.filter(m => !assignedMemberIds.has(m.id));
-  }, [members, assignedMemberIds]);
+    return members.filter(m => !placements.has(m.id));
+  }, [members, placements]);
+
+  const listedMembers = showAssigned ? members : availableMembers;
 
   const filteredMembers = useMemo(() => {
-    return availableMembers
+    return listedMembers
       .filter(m => {
         const matchesSearch = m.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
                               m.profession.toLowerCase().includes(searchTerm.toLowerCase());
-        const matchesFilter = filterProf ? m.profession === filterProf : true;
-        return matchesSearch && matchesFilter;
+        return matchesSearch && matchesMemberFilter(m, filter, planId);
       })
-      .sort((a, b) => a.profession.localeCompare(b.profession));
-  }, [availableMembers, searchTerm, filterProf]);
+      .sort((a, b) => {
+        if (sortKey === 'profession') return a.profession.localeCompare(b.profession);
+        if (sortKey === 'name') return a.name.localeCompare(b.name);
+        // Rotation: fewest appearances / longest wait first, ties go to whoever has waited longer
+        if (sortKey === 'played' || sortKey === 'benchStreak') {
+          const sa = historyStats.get(a.id), sb = historyStats.get(b.id);
+          const played = (sa?.played ?? 0) - (sb?.played ?? 0);
+          const streak = (sb?.benchStreak ?? 0) - (sa?.benchStreak ?? 0);
+          return (sortKey === 'played' ? played || streak : streak || played) || a.profession.localeCompare(b.profession);
+        }
+        // Highest first; members without the value go last
+        return (b[sortKey] ?? -Infinity) - (a[sortKey] ?? -Infinity) || a.profession.localeCompare(b.profession);
+      });
+  }, [listedMembers, searchTerm, filter, planId, sortKey, historyStats]);
+
+  const statusCounts = useMemo(() => {
+    const counts: Record<AttendanceStatus, number> = { signed: 0, leave: 0, tentative: 0, none: 0 };
+    listedMembers.forEach(m => { counts[getAttendance(m, planId)]++; });
+    return counts;
+  }, [listedMembers, planId]);
+
+  // Clicking a member's badge steps through 报名 -> 请假 -> 待定 -> 未回复
+  const cycleAttendance = (e: React.MouseEvent, member: Member) => {
+    e.stopPropagation();
+    const idx = ATTENDANCE_STATUSES.findIndex(s => s.key === getAttendance(member, planId));
+    onSetAttendance(member.id, ATTENDANCE_STATUSES[(idx + 1) % ATTENDANCE_STATUSES.length].key);
+  };
+
+  const professions = useMemo(() => Array.from(new Set(members.flatMap(memberProfessions))), [members]);
+  const tags = useMemo(() => collectTags(members), [members]);
+
+  // Skill options with how many listed members could bring each, most common first
+  const skillCounts = useMemo(() => {
+    const count = (pick: (c: { ult: string; clan: string }) => string) => {
+      const counts = new Map<string, number>();
+      listedMembers.forEach(m => new Set(listCharacters(m).map(pick)).forEach(v => counts.set(v, (counts.get(v) || 0) + 1)));
+      return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+    };
+    return { ults: count(c => c.ult), clans: count(c => c.clan) };
+  }, [listedMembers]);
+
+  const customKeys = useMemo(() => Array.from(new Set(members.flatMap(m => Object.keys(m.custom || {})))), [members]);
 
-  const professions = useMemo(() => Array.from(new Set(members.map(m => m.profession))), [members]);
+  const presetCounts = useMemo(
+    () => new Map(presets.map(p => [p.id, listedMembers.filter(m => matchesMemberFilter(m, p.filter, planId)).length])),
+    [presets, listedMembers, planId]
+  );
+
+  const toggleIn = (list: string[], value: string) => list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  const toggleTag = (tag: string) => {
+    setFilter(prev => ({ ...prev, tags: toggleIn(prev.tags, tag) }));
+  };
+
+  const filterKey = JSON.stringify(compactFilter(filter));
+  const advancedCount = countAdvancedConditions(filter);
+
+  const updatePresets = (next: FilterPreset[]) => {
+    setPresets(next);
+    saveFilterPresets(next);
+  };
+
+  const handleSavePreset = () => {
+    const name = window.prompt("筛选方案名称:", describeFilter(filter));
+    if (!name?.trim()) return;
+    const existing = presets.find(p => p.name === name.trim());
+    if (existing && !window.confirm(`已有名为「${existing.name}」的筛选方案，是否覆盖?`)) return;
+    const preset = { id: existing?.id || generateId(), name: name.trim(), filter: compactFilter(filter) };
+    updatePresets(existing ? presets.map(p => p.id === existing.id ? preset : p) : [...presets, preset]);
+  };
+
+  const handleDeletePreset = (e: React.MouseEvent, preset: FilterPreset) => {
+    e.stopPropagation();
+    if (window.confirm(`删除筛选方案「${preset.name}」?`)) updatePresets(presets.filter(p => p.id !== preset.id));
+  };
 
   // DnD Handler
   const handleDragStart = (e: React.DragEvent, member: Member) => {
@@ -67,36 +175,54 @@ const MemberSidebar: React.FC<MemberSidebarProps> = ({
         </h2>
         
         <div className="space-y-3">
-          <div className="relative">
+          <div className="relative flex gap-2">
             <Search className="absolute left-3 top-3 w-5 h-5 text-gray-400 dark:text-slate-500" />
             <input
               type="text"
               placeholder="搜索成员..."
-              className="w-full bg-gray-50 dark:bg-slate-900 text-gray-800 dark:text-gray-200 pl-10 pr-3 py-2.5 rounded-lg text-base focus:outline-none focus:ring-2 focus:ring-primary/20 border border-gray-200 dark:border-slate-600 transition-all placeholder-gray-400 dark:placeholder-slate-500 hover:bg-white dark:hover:bg-slate-900 hover:border-gray-300 dark:hover:border-slate-500"
+              className="flex-1 min-w-0 bg-gray-50 dark:bg-slate-900 text-gray-800 dark:text-gray-200 pl-10 pr-3 py-2.5 rounded-lg text-base focus:outline-none focus:ring-2 focus:ring-primary/20 border border-gray-200 dark:border-slate-600 transition-all placeholder-gray-400 dark:placeholder-slate-500 hover:bg-white dark:hover:bg-slate-900 hover:border-gray-300 dark:hover:border-slate-500"
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
             />
+            <button
+              onClick={() => setShowAssigned(!showAssigned)}
+              className={`shrink-0 px-2 rounded-lg border transition-all ${showAssigned ? 'bg-primary border-primary text-white' : 'bg-gray-50 dark:bg-slate-900 border-gray-200 dark:border-slate-600 text-gray-400 dark:text-slate-500 hover:text-gray-600 dark:hover:text-gray-300'}`}
+              title={showAssigned ? '只看未上阵成员' : '显示已上阵成员'}
+            >
+              <MapPin className="w-4 h-4" />
+            </button>
+            <label className="relative shrink-0 flex items-center" title="排序">
+              <ArrowDownWideNarrow className="absolute left-2 w-4 h-4 text-gray-400 dark:text-slate-500 pointer-events-none" />
+              <select
+                value={sortKey}
+                onChange={(e) => setSortKey(e.target.value as SortKey)}
+                className="h-full bg-gray-50 dark:bg-slate-900 text-gray-600 dark:text-gray-300 pl-7 pr-1 rounded-lg text-xs border border-gray-200 dark:border-slate-600 focus:outline-none focus:ring-2 focus:ring-primary/20"
+              >
+                {SORT_OPTIONS.map(o => <option key={o.key} value={o.key}>{o.label}</option>)}
+              </select>
+            </label>
           </div>
           
           {professions.length > 0 && (
              <div className="flex gap-2 overflow-x-auto no-scrollbar pb-1">
                <button 
-                 onClick={() => setFilterProf(null)}
-                 className={`text-xs px-3 py-1.5 rounded-full border whitespace-nowrap transition-all ${!filterProf ? 'bg-gray-800 dark:bg-slate-700 border-gray-800 dark:border-slate-600 text-white font-bold' : 'bg-white dark:bg-slate-800 border-gray-200 dark:border-slate-600 text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-slate-700'}`}
+                 onClick={() => setFilter({ ...filter, profession: null })}
+                 className={`text-xs px-3 py-1.5 rounded-full border whitespace-nowrap transition-all ${!filter.profession ? 'bg-gray-800 dark:bg-slate-700 border-gray-800 dark:border-slate-600 text-white font-bold' : 'bg-white dark:bg-slate-800 border-gray-200 dark:border-slate-600 text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-slate-700'}`}
                >
                  全部
                </button>
                {professions.map(p => {
                  const color = professionColors[p] || '#94A3B8';
+                 const active = p === filter.profession;
                  return (
                    <button
                      key={p}
-                     onClick={() => setFilterProf(p === filterProf ? null : p)}
+                     onClick={() => setFilter({ ...filter, profession: active ? null : p })}
                      className={`text-xs px-3 py-1.5 rounded-full border whitespace-nowrap transition-all font-medium`}
                      style={{ 
-                       borderColor: p === filterProf ? color : undefined,
-                       backgroundColor: p === filterProf ? color : undefined,
-                       color: p === filterProf ? '#FFF' : undefined,
+                       borderColor: active ? color : undefined,
+                       backgroundColor: active ? color : undefined,
+                       color: active ? '#FFF' : undefined,
                      }}
                    >
                      {p}
@@ -105,6 +231,115 @@ const MemberSidebar: React.FC<MemberSidebarProps> = ({
                })}
              </div>
           )}
+
+          {tags.length > 0 && (
+            <div className="flex gap-1.5 overflow-x-auto no-scrollbar pb-1 items-center">
+              <Tag size={14} className="text-gray-400 dark:text-slate-500 shrink-0" />
+              {tags.map(t => {
+                const active = filter.tags.includes(t);
+                const color = getTagColor(t);
+                return (
+                  <button
+                    key={t}
+                    onClick={() => toggleTag(t)}
+                    className={`text-xs px-2.5 py-1 rounded-full border whitespace-nowrap transition-all ${active ? 'text-white font-bold' : 'bg-white dark:bg-slate-800 text-gray-600 dark:text-gray-300'}`}
+                    style={{ borderColor: color, backgroundColor: active ? color : undefined }}
+                  >
+                    {t}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="flex gap-1.5">
+            {ATTENDANCE_STATUSES.map(s => (
+              <button
+                key={s.key}
+                onClick={() => setFilter({ ...filter, status: filter.status === s.key ? null : s.key })}
+                className={`flex-1 text-[11px] px-1 py-1 rounded border whitespace-nowrap transition-all ${s.className} ${filter.status === s.key ? 'font-bold ring-2 ring-offset-1 ring-current dark:ring-offset-slate-800' : 'opacity-80 hover:opacity-100'}`}
+                title={`只看${s.label}`}
+              >
+                {s.label} {statusCounts[s.key]}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex gap-1.5 items-center flex-wrap">
+            <button
+              onClick={() => setShowAdvanced(!showAdvanced)}
+              className={`text-xs px-2.5 py-1 rounded-full border flex items-center gap-1 transition-all ${showAdvanced || advancedCount > 0 ? 'border-primary text-primary dark:text-teal-400 font-bold' : 'border-gray-200 dark:border-slate-600 text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-slate-700'}`}
+            >
+              <SlidersHorizontal size={12} /> 高级筛选{advancedCount > 0 && ` (${advancedCount})`}
+            </button>
+            {presets.map(p => {
+              const active = JSON.stringify(p.filter) === filterKey;
+              return (
+                <button
+                  key={p.id}
+                  onClick={() => setFilter(active ? EMPTY_FILTER : p.filter)}
+                  className={`group/preset text-xs px-2.5 py-1 rounded-full border flex items-center gap-1 whitespace-nowrap transition-all ${active ? 'bg-primary border-primary text-white font-bold' : 'bg-white dark:bg-slate-800 border-gray-200 dark:border-slate-600 text-gray-600 dark:text-gray-300 hover:border-primary/50'}`}
+                  title={describeFilter(p.filter)}
+                >
+                  <Bookmark size={11} /> {p.name}
+                  <span className={`font-mono ${active ? 'text-white/80' : 'text-gray-400'}`}>{presetCounts.get(p.id)}</span>
+                  <X size={11} className="opacity-0 group-hover/preset:opacity-100 hover:text-red-500" onClick={(e) => handleDeletePreset(e, p)} />
+                </button>
+              );
+            })}
+          </div>
+
+          {showAdvanced && (
+            <div className="space-y-2 bg-gray-50 dark:bg-slate-900/60 border border-gray-200 dark:border-slate-700 rounded-lg p-2.5">
+              {([['ults', '绝技'], ['clans', '百家']] as const).map(([key, label]) => (
+                <div key={key} className="flex gap-1 flex-wrap items-center">
+                  <span className="text-[11px] font-bold text-gray-400 dark:text-slate-500 w-8 shrink-0">{label}</span>
+                  {skillCounts[key].map(([value, count]) => {
+                    const active = filter[key].includes(value);
+                    return (
+                      <button
+                        key={value}
+                        onClick={() => setFilter({ ...filter, [key]: toggleIn(filter[key], value) })}
+                        className={`text-[11px] px-2 py-0.5 rounded border whitespace-nowrap transition-all ${active ? 'bg-accent border-accent text-white font-bold' : 'bg-white dark:bg-slate-800 border-gray-200 dark:border-slate-600 text-gray-600 dark:text-gray-300 hover:border-accent/50'}`}
+                      >
+                        {value} <span className={`font-mono ${active ? 'text-white/80' : 'text-gray-400'}`}>{count}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              ))}
+              <div className="flex gap-1 items-center">
+                <span className="text-[11px] font-bold text-gray-400 dark:text-slate-500 w-8 shrink-0">备注</span>
+                <input
+                  value={filter.note}
+                  onChange={(e) => setFilter({ ...filter, note: e.target.value })}
+                  placeholder="包含文字..."
+                  className="flex-1 min-w-0 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-600 rounded px-2 py-1 text-xs outline-none focus:border-primary"
+                />
+              </div>
+              {customKeys.map(key => (
+                <div key={key} className="flex gap-1 items-center">
+                  <span className="text-[11px] font-bold text-gray-400 dark:text-slate-500 w-8 shrink-0 truncate" title={key}>{key}</span>
+                  <input
+                    value={filter.custom[key] || ''}
+                    onChange={(e) => setFilter({ ...filter, custom: { ...filter.custom, [key]: e.target.value } })}
+                    placeholder="包含文字..."
+                    className="flex-1 min-w-0 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-600 rounded px-2 py-1 text-xs outline-none focus:border-primary"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {!isFilterEmpty(filter) && (
+            <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-slate-400">
+              <span>符合筛选 <span className="font-mono font-bold text-gray-800 dark:text-gray-200">{filteredMembers.length}</span> 人</span>
+              <button onClick={handleSavePreset} className="ml-auto flex items-center gap-1 text-primary dark:text-teal-400 hover:underline">
+                <Bookmark size={12} /> 保存为方案
+              </button>
+              <button onClick={() => setFilter(EMPTY_FILTER)} className="hover:text-gray-800 dark:hover:text-gray-200 hover:underline">清除</button>
+            </div>
+          )}
         </div>
       </div>
 
@@ -118,25 +353,57 @@ const MemberSidebar: React.FC<MemberSidebarProps> = ({
           filteredMembers.map(member => {
             const isSelected = selectedMemberId === member.id;
             const color = professionColors[member.profession] || '#94A3B8';
+            const status = ATTENDANCE_STATUSES.find(s => s.key === getAttendance(member, planId))!;
+            const history = historyStats.get(member.id);
+            const placement = placements.get(member.id);
 
             return (
               <div
                 key={member.id}
-                onClick={() => onSelectMember(member)}
+                onClick={() => placement ? onLocateMember(member.id) : onSelectMember(member)}
                 draggable
                 onDragStart={(e) => handleDragStart(e, member)}
                 className={`w-full flex items-center p-3 rounded-xl transition-all duration-200 border group relative overflow-hidden text-left cursor-grab active:cursor-grabbing ${
                   isSelected 
                     ? 'bg-white dark:bg-slate-700 border-primary shadow-md translate-x-1' 
                     : 'bg-white dark:bg-slate-800 border-gray-200 dark:border-slate-700 hover:border-primary/50 hover:shadow-sm'
-                }`}
+                } ${placement ? 'opacity-75' : ''}`}
               >
                 <div className="w-1.5 h-10 rounded-full mr-3" style={{ backgroundColor: color }}></div>
                 <div className="flex flex-col items-start overflow-hidden flex-1">
-                   <span className={`font-bold truncate w-full text-base ${isSelected ? 'text-primary dark:text-teal-400' : 'text-gray-800 dark:text-gray-200'}`}>{member.name}</span>
-                   <div className="flex gap-1.5 mt-1.5">
+                   <div className="flex items-center gap-2 w-full min-w-0">
+                     <span className={`font-bold truncate text-base ${isSelected ? 'text-primary dark:text-teal-400' : 'text-gray-800 dark:text-gray-200'}`}>{member.name}</span>
+                     <button
+                       onClick={(e) => cycleAttendance(e, member)}
+                       className={`ml-auto shrink-0 text-[10px] font-bold px-1.5 py-0.5 rounded border ${status.className}`}
+                       title="点击切换出勤状态"
+                     >
+                       {status.label}
+                     </button>
+                   </div>
+                   {placement && (
+                     <span className="mt-1 text-[11px] font-medium text-primary dark:text-teal-400 flex items-center gap-1 max-w-full" title="点击定位到该位置">
+                       <MapPin size={11} className="shrink-0" /> <span className="truncate">{placement}</span>
+                     </span>
+                   )}
+                   <div className="flex flex-wrap gap-1.5 mt-1.5">
                       <span className="text-xs text-gray-500 dark:text-gray-400 bg-gray-100 dark:bg-slate-900 px-2 py-0.5 rounded border border-gray-200 dark:border-slate-600">{member.profession}</span>
+                      {member.characters?.map(c => (
+                        <span key={c.id} className="text-xs text-gray-400 dark:text-slate-500 px-1.5 py-0.5 rounded border border-dashed border-gray-200 dark:border-slate-600" title={`小号${c.name ? ` ${c.name}` : ''}: ${c.profession}`}>
+                          {c.profession}
+                        </span>
+                      ))}
                       {member.ult !== '无' && <span className="text-xs text-accent font-medium px-1">{member.ult}</span>}
+                      {member.power !== undefined && <span className="text-xs font-mono text-gray-500 dark:text-slate-400 px-1">{member.power.toLocaleString()}</span>}
+                      {member.level !== undefined && <span className="text-xs font-mono text-gray-400 dark:text-slate-500">Lv{member.level}</span>}
+                      {hasHistory && history && (
+                        <span className="text-xs text-gray-400 dark:text-slate-500" title={`出场 ${history.played} 次，连续 ${history.benchStreak} 次未出场`}>
+                          出场{history.played}{history.benchStreak > 0 && <span className="text-amber-600 dark:text-amber-400">·空{history.benchStreak}</span>}
+                        </span>
+                      )}
+                      {member.tags?.map(t => (
+                        <span key={t} className="text-[10px] font-bold text-white px-1.5 py-0.5 rounded-sm leading-none self-center" style={{ backgroundColor: getTagColor(t) }}>{t}</span>
+                      ))}
                    </div>
                 </div>
                 
@@ -0,0 +1,165 @@
+
+import React, { useState, useMemo } from 'react';
+import { AppData, Member } from '../types';
+import { computeMergePreview, applyMergePreview, formatMemberField, MemberChange } from '../services/merge';
+import { Modal } from './Modals';
+import { GitMerge, Replace, UserPlus, UserMinus, UserCog, ArrowRight } from 'lucide-react';
+
+interface MergeImportProps {
+  fileName: string;
+  current: AppData;
+  incoming: AppData;
+  onMerge: (newData: AppData) => void;
+  onOverwrite: () => void;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = { profession: '职业', ult: '绝技', clan: '百家', note: '备注', power: '战力', level: '等级', gear: '装评', tags: '标签', characters: '小号', custom: '自定义', archived: '归档' };
+
+const KIND_META: Record<MemberChange['kind'], { label: string; className: string; icon: React.ReactNode }> = {
+  added: { label: '新增', className: 'text-emerald-600 dark:text-emerald-400 bg-emerald-50 dark:bg-emerald-900/20', icon: <UserPlus size={12} /> },
+  changed: { label: '修改', className: 'text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20', icon: <UserCog size={12} /> },
+  removed: { label: '移除', className: 'text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20', icon: <UserMinus size={12} /> },
+};
+
+const displayField = (text: string) => text === '' ? '(空)' : text;
+
+const describeMember = (m?: Member) => m ? [m.profession, m.ult, m.clan, m.note].filter(v => v && v !== '无').join(' · ') : '';
+
+export const MergeImportModal: React.FC<MergeImportProps> = ({ fileName, current, incoming, onMerge, onOverwrite, onClose }) => {
+  const preview = useMemo(() => computeMergePreview(current, incoming), [current, incoming]);
+
+  // Removals are opt-in: a partial pool from another officer should not delete everyone else
+  const [accepted, setAccepted] = useState<Set<string>>(() => new Set([
+    ...preview.memberChanges.filter(c => c.kind !== 'removed').map(c => c.key),
+    ...preview.slotChanges.map(c => c.key)
+  ]));
+
+  const memberName = (id: string | null) => {
+    if (!id) return null;
+    return (current.pool.find(m => m.id === id) || preview.incomingPool.find(m => m.id === id))?.name || id;
+  };
+
+  const toggle = (key: string) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  const setAll = (keys: string[], on: boolean) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      keys.forEach(k => on ? next.add(k) : next.delete(k));
+      return next;
+    });
+  };
+
+  const handleMerge = () => {
+    onMerge(applyMergePreview(current, incoming, preview, accepted));
+  };
+
+  const handleOverwrite = () => {
+    if (window.confirm("确定用文件内容覆盖全部数据? 当前成员与排布将被替换。")) onOverwrite();
+  };
+
+  const memberKeys = preview.memberChanges.map(c => c.key);
+  const slotKeys = preview.slotChanges.map(c => c.key);
+  const acceptedCount = [...memberKeys, ...slotKeys].filter(k => accepted.has(k)).length;
+
+  return (
+    <Modal title={`导入: ${fileName}`} onClose={onClose} maxWidth="max-w-5xl">
+      <div className="flex flex-col h-[640px]">
+        <div className="flex-1 grid grid-cols-2 gap-4 p-4 overflow-hidden">
+          {/* Member changes */}
+          <div className="flex flex-col min-h-0 bg-gray-50 dark:bg-slate-900 rounded-lg border border-gray-200 dark:border-slate-700">
+            <div className="p-3 border-b border-gray-200 dark:border-slate-700 flex items-center text-xs font-bold text-gray-500 uppercase tracking-wider">
+              成员变更 ({preview.memberChanges.length})
+              <div className="ml-auto flex gap-2 normal-case font-medium">
+                <button onClick={() => setAll(memberKeys, true)} className="text-primary hover:underline">全选</button>
+                <button onClick={() => setAll(memberKeys, false)} className="text-gray-400 hover:underline">全不选</button>
+              </div>
+            </div>
+            <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-1.5">
+              {preview.memberChanges.length === 0 && <div className="text-sm text-gray-400 text-center mt-10">成员信息一致</div>}
+              {preview.memberChanges.map(c => {
+                const meta = KIND_META[c.kind];
+                const name = (c.incoming || c.current)!.name;
+                return (
+                  <label key={c.key} className={`flex items-start gap-3 p-2.5 rounded border bg-white dark:bg-slate-800 cursor-pointer transition-colors ${accepted.has(c.key) ? 'border-primary/40' : 'border-gray-100 dark:border-slate-700 opacity-60'}`}>
+                    <input type="checkbox" checked={accepted.has(c.key)} onChange={() => toggle(c.key)} className="mt-1 accent-primary" />
+                    <div className="flex-1 min-w-0 text-sm">
+                      <div className="flex items-center gap-2">
+                        <span className={`flex items-center gap-1 text-[10px] font-bold px-1.5 py-0.5 rounded ${meta.className}`}>{meta.icon}{meta.label}</span>
+                        <span className="font-bold text-gray-800 dark:text-gray-100 truncate">{name}</span>
+                      </div>
+                      {c.kind === 'changed' ? (
+                        <div className="mt-1.5 space-y-0.5">
+                          {c.fields.map(f => (
+                            <div key={f} className="grid grid-cols-[3rem_1fr_auto_1fr] items-center gap-2 text-xs">
+                              <span className="text-gray-400">{FIELD_LABELS[f]}</span>
+                              <span className="text-gray-500 dark:text-slate-400 line-through truncate">{displayField(formatMemberField(c.current!, f))}</span>
+                              <ArrowRight size={12} className="text-gray-400" />
+                              <span className="font-bold text-gray-800 dark:text-gray-100 truncate">{displayField(formatMemberField(c.incoming!, f))}</span>
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <div className="text-xs text-gray-500 dark:text-slate-400 mt-1 truncate">{describeMember(c.incoming || c.current)}</div>
+                      )}
+                    </div>
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Slot changes */}
+          <div className="flex flex-col min-h-0 bg-gray-50 dark:bg-slate-900 rounded-lg border border-gray-200 dark:border-slate-700">
+            <div className="p-3 border-b border-gray-200 dark:border-slate-700 flex items-center text-xs font-bold text-gray-500 uppercase tracking-wider">
+              排布变更 ({preview.slotChanges.length})
+              <div className="ml-auto flex gap-2 normal-case font-medium">
+                <button onClick={() => setAll(slotKeys, true)} className="text-primary hover:underline">全选</button>
+                <button onClick={() => setAll(slotKeys, false)} className="text-gray-400 hover:underline">全不选</button>
+              </div>
+            </div>
+            <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-1.5">
+              {preview.slotChanges.length === 0 && <div className="text-sm text-gray-400 text-center mt-10">排布一致</div>}
+              {preview.slotChanges.map(c => (
+                <label key={c.key} className={`flex items-center gap-3 p-2.5 rounded border bg-white dark:bg-slate-800 cursor-pointer transition-colors ${accepted.has(c.key) ? 'border-primary/40' : 'border-gray-100 dark:border-slate-700 opacity-60'}`}>
+                  <input type="checkbox" checked={accepted.has(c.key)} onChange={() => toggle(c.key)} className="accent-primary" />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-[11px] text-gray-400 font-mono truncate">{c.label}</div>
+                    <div className="grid grid-cols-[1fr_auto_1fr] items-center gap-2 text-sm">
+                      <span className="text-gray-500 dark:text-slate-400 truncate">{memberName(c.currentMemberId) || '(空)'}</span>
+                      <ArrowRight size={14} className="text-gray-400" />
+                      <span className="font-bold text-gray-800 dark:text-gray-100 truncate">{memberName(c.incomingMemberId) || '(空)'}</span>
+                    </div>
+                  </div>
+                </label>
+              ))}
+              {preview.skippedSlots > 0 && (
+                <div className="text-xs text-gray-400 p-2">另有 {preview.skippedSlots} 个排布位于本地不存在的团/队伍中，合并时将忽略。</div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-between items-center p-4 border-t border-gray-100 dark:border-slate-700 bg-gray-50 dark:bg-slate-900">
+          <button onClick={handleOverwrite} className="flex items-center gap-2 text-gray-500 hover:text-red-500 px-3 py-2 rounded transition-colors text-sm">
+            <Replace size={16} /> 全部覆盖
+          </button>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600 text-gray-600 dark:text-gray-300 px-6 py-2.5 rounded-md font-bold transition-colors">
+              取消
+            </button>
+            <button onClick={handleMerge} disabled={acceptedCount === 0} className="bg-primary text-white font-bold px-6 py-2.5 rounded shadow-lg hover:bg-primary/90 transition-transform active:scale-95 flex items-center gap-2 disabled:opacity-50">
+              <GitMerge size={16} /> 合并选中 ({acceptedCount})
+            </button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
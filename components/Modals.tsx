@@ -1,8 +1,15 @@
 
 import React, { useState } from 'react';
-import { Member, AppData, CLASS_COLORS, GROUP_COLORS, GameConfig, DEFAULT_ULT_SKILLS, DEFAULT_CLAN_SKILLS } from '../types';
-import { X, Plus, Trash2, Save, Upload, CheckCircle2, Gamepad2, RotateCcw, Palette, ArrowDownToLine, WrapText } from 'lucide-react';
+import { Member, MemberCharacter, AppData, CLASS_COLORS, GROUP_COLORS, GameConfig, DEFAULT_ULT_SKILLS, DEFAULT_CLAN_SKILLS, MEMBER_STATS, MemberStatKey } from '../types';
+import { X, Plus, Trash2, Save, Upload, CheckCircle2, Gamepad2, RotateCcw, Palette, ArrowDownToLine, WrapText, Tag, History, Users, Link2, ListChecks, Archive, ArchiveRestore } from 'lucide-react';
 import { generateId } from '../services/storage';
+import { getTagColor, normalizeTag, mergeTags, collectTags } from '../services/tags';
+import { MemberHistoryStats } from '../services/history';
+import { deployedAs, listCharacters, updateDeployedSkills } from '../services/characters';
+import { applySpreadsheetRows, SpreadsheetRow } from '../services/spreadsheet';
+import { BulkEdit, EMPTY_BULK_EDIT, applyBulkEdit, previewBulkEdit } from '../services/bulkEdit';
+import { attachAltRecord, findDuplicate, findDuplicatePairs, mergeMemberRecords, normalizeMemberName } from '../services/duplicates';
+import { SpreadsheetImportPanel } from './SpreadsheetImport';
 
 // --- Generic Modal Wrapper ---
 export const Modal: React.FC<{ title: string; onClose: () => void; children: React.ReactNode; maxWidth?: string }> = ({ title, onClose, children, maxWidth = "max-w-4xl" }) => (
@@ -19,37 +26,211 @@ export const Modal: React.FC<{ title: string; onClose: () => void; children: Rea
   </div>
 );
 
+// --- Tag Chip & Input ---
+export const TagChip: React.FC<{ tag: string; onRemove?: () => void; className?: string }> = ({ tag, onRemove, className = '' }) => (
+  <span className={`inline-flex items-center gap-0.5 text-white font-bold rounded-sm leading-none px-1.5 py-0.5 ${className}`} style={{ backgroundColor: getTagColor(tag) }}>
+    {tag}
+    {onRemove && <button type="button" onClick={onRemove} className="opacity-70 hover:opacity-100"><X size={10} /></button>}
+  </span>
+);
+
+const TagInput: React.FC<{ tags: string[]; suggestions: string[]; onChange: (tags: string[]) => void }> = ({ tags, suggestions, onChange }) => {
+  const [draft, setDraft] = useState('');
+
+  const commit = () => {
+    const added = draft.split(/[,，\s]+/).map(normalizeTag).filter(Boolean);
+    if (added.length > 0) onChange(mergeTags(tags, added));
+    setDraft('');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 w-full bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md p-2 focus-within:border-primary focus-within:ring-1 focus-within:ring-primary transition-all">
+      {tags.map(t => <TagChip key={t} tag={t} className="text-xs py-1" onRemove={() => onChange(tags.filter(x => x !== t))} />)}
+      <input
+        list="member-tag-suggestions"
+        className="flex-1 min-w-[6rem] bg-transparent outline-none text-sm text-gray-900 dark:text-white"
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onKeyDown={e => {
+          if (e.key === 'Enter' || e.key === ',') { e.preventDefault(); commit(); }
+          if (e.key === 'Backspace' && !draft && tags.length > 0) onChange(tags.slice(0, -1));
+        }}
+        onBlur={commit}
+        placeholder={tags.length === 0 ? "输入标签后回车，如 指挥、新人" : ''}
+      />
+      <datalist id="member-tag-suggestions">
+        {suggestions.filter(t => !tags.includes(t)).map(t => <option key={t} value={t} />)}
+      </datalist>
+    </div>
+  );
+};
+
+// --- Bulk Edit Panel ---
+const BulkEditPanel: React.FC<{
+  members: Member[];
+  ults: string[];
+  clans: string[];
+  knownTags: string[];
+  onApply: (updated: Member[]) => void;
+  onDelete: () => void;
+  onArchive: () => void;
+  onCancel: () => void;
+}> = ({ members, ults, clans, knownTags, onApply, onDelete, onArchive, onCancel }) => {
+  const [edit, setEdit] = useState<BulkEdit>(EMPTY_BULK_EDIT);
+  const preview = previewBulkEdit(members, edit);
+  const selectedTags = collectTags(members);
+  const selectClass = "w-full bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md p-2.5 text-gray-900 dark:text-white focus:border-primary outline-none";
+
+  const toggleRemoveTag = (tag: string) => {
+    setEdit({ ...edit, removeTags: edit.removeTags.includes(tag) ? edit.removeTags.filter(t => t !== tag) : [...edit.removeTags, tag] });
+  };
+
+  return (
+    <div className="flex-1 flex flex-col gap-4 overflow-y-auto custom-scrollbar pr-1">
+      <h4 className="text-lg font-bold text-gray-800 dark:text-gray-100 border-b border-gray-200 dark:border-slate-700 pb-2 flex items-center gap-2">
+        <ListChecks size={20} className="text-primary dark:text-teal-400"/>
+        批量编辑 ({members.length} 人)
+        <button onClick={onCancel} className="ml-auto text-xs font-medium text-gray-500 hover:text-gray-800 dark:hover:text-gray-200">取消选择</button>
+      </h4>
+
+      <div className="grid grid-cols-3 gap-4">
+        {([
+          ['profession', '职业', Object.keys(CLASS_COLORS)],
+          ['ult', '绝技', ults],
+          ['clan', '百家', clans],
+        ] as const).map(([field, label, options]) => (
+          <div key={field}>
+            <label className="block text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1.5 uppercase">{label}</label>
+            <select className={selectClass} value={edit[field] || ''} onChange={e => setEdit({ ...edit, [field]: e.target.value || undefined })}>
+              <option value="">不修改</option>
+              {options.map(o => <option key={o} value={o}>{o}</option>)}
+            </select>
+          </div>
+        ))}
+        <div className="col-span-3">
+          <label className="block text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1.5 uppercase">备注</label>
+          <div className="flex gap-2">
+            <select
+              className="bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md p-2.5 text-gray-900 dark:text-white focus:border-primary outline-none"
+              value={edit.note?.mode || ''}
+              onChange={e => setEdit({ ...edit, note: e.target.value ? { mode: e.target.value as 'append' | 'clear', text: edit.note?.text || '' } : undefined })}
+            >
+              <option value="">不修改</option>
+              <option value="append">追加</option>
+              <option value="clear">清空</option>
+            </select>
+            {edit.note?.mode === 'append' && (
+              <input
+                className="flex-1 min-w-0 bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md p-2.5 text-gray-900 dark:text-white focus:border-primary outline-none"
+                value={edit.note.text}
+                onChange={e => setEdit({ ...edit, note: { mode: 'append', text: e.target.value } })}
+                placeholder="追加到原备注之后"
+              />
+            )}
+          </div>
+        </div>
+        <div className="col-span-3">
+          <label className="block text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1.5 uppercase flex items-center gap-1"><Tag size={12} /> 添加标签</label>
+          <TagInput tags={edit.addTags} suggestions={knownTags} onChange={addTags => setEdit({ ...edit, addTags })} />
+        </div>
+        {selectedTags.length > 0 && (
+          <div className="col-span-3">
+            <label className="block text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1.5 uppercase">移除标签 (点击选择)</label>
+            <div className="flex flex-wrap gap-1.5">
+              {selectedTags.map(t => (
+                <button key={t} onClick={() => toggleRemoveTag(t)} className={edit.removeTags.includes(t) ? 'line-through opacity-50' : ''}>
+                  <TagChip tag={t} className="text-xs py-1" />
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Preview */}
+      <div className="flex-1 min-h-[8rem] bg-gray-50 dark:bg-slate-900 rounded-lg border border-gray-200 dark:border-slate-700 p-3 text-xs space-y-1 overflow-y-auto custom-scrollbar">
+        <div className="font-semibold text-gray-500 dark:text-gray-400 mb-1">预览: 将修改 {preview.length} 人</div>
+        {preview.map(({ member, fields }) => (
+          <div key={member.id} className="flex gap-2">
+            <span className="font-bold text-gray-700 dark:text-gray-200 shrink-0">{member.name}</span>
+            <span className="text-gray-500 dark:text-slate-400 truncate" title={fields.map(f => `${f.label}: ${f.before || '(空)'} → ${f.after || '(空)'}`).join('\n')}>
+              {fields.map(f => `${f.label}: ${f.before || '(空)'} → ${f.after || '(空)'}`).join('；')}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-3 pt-4 border-t border-gray-100 dark:border-slate-700">
+        <button
+          onClick={() => onApply(members.map(m => applyBulkEdit(m, edit)))}
+          disabled={preview.length === 0}
+          className="bg-primary hover:bg-primary/90 text-white px-6 py-2.5 rounded-md font-bold flex items-center gap-2 shadow-md transition-transform active:scale-95 disabled:opacity-50"
+        >
+          <Save size={18} /> 应用到 {preview.length} 人
+        </button>
+        <button onClick={onArchive} className="ml-auto bg-amber-50 dark:bg-amber-900/20 hover:bg-amber-100 dark:hover:bg-amber-900/40 text-amber-700 dark:text-amber-400 px-4 py-2.5 rounded-md font-bold flex items-center gap-2">
+          <Archive size={16} /> 归档所选
+        </button>
+        <button onClick={onDelete} className="bg-red-50 dark:bg-red-900/20 hover:bg-red-100 dark:hover:bg-red-900/40 text-red-600 dark:text-red-400 px-4 py-2.5 rounded-md font-bold flex items-center gap-2">
+          <Trash2 size={16} /> 删除所选
+        </button>
+      </div>
+    </div>
+  );
+};
+
 // --- Member Editor Modal ---
+
+// Batch lines may carry numeric attributes anywhere after the name, e.g. "战力=120000" or "等级:95"
+const STAT_TOKEN = /^(战力|评分|等级|装评)[=:：](\d+(?:\.\d+)?)$/;
+const STAT_TOKEN_KEYS: Record<string, MemberStatKey> = { '战力': 'power', '评分': 'power', '等级': 'level', '装评': 'gear' };
+
 interface MemberEditorProps {
   pool: Member[];
   gameConfig: GameConfig;
   onUpdatePool: (newPool: Member[]) => void;
   onUpdateGameConfig: (newConfig: GameConfig) => void;
   onClose: () => void;
+  historyStats?: Map<string, MemberHistoryStats>; // Participation in archived events, see services/history.ts
+  onMergeMembers?: (survivorId: string, duplicateId: string, asCharacterId?: string) => void; // Also moves the duplicate's placements and history to the survivor
 }
 
-export const MemberEditorModal: React.FC<MemberEditorProps> = ({ pool, gameConfig, onUpdatePool, onUpdateGameConfig, onClose }) => {
-  const [activeTab, setActiveTab] = useState<'edit' | 'batch'>('edit');
+export const MemberEditorModal: React.FC<MemberEditorProps> = ({ pool, gameConfig, onUpdatePool, onUpdateGameConfig, onClose, historyStats, onMergeMembers }) => {
+  const [activeTab, setActiveTab] = useState<'edit' | 'batch' | 'sheet' | 'duplicates' | 'archived'>('edit');
   const [localPool, setLocalPool] = useState<Member[]>([...pool]);
   const [editForm, setEditForm] = useState<Partial<Member>>({ profession: '碎梦', ult: '无', clan: '无' });
   const [batchText, setBatchText] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [notDuplicates, setNotDuplicates] = useState<Set<string>>(new Set()); // Pair keys dismissed in this session
 
   const availableUlts = gameConfig?.ultSkills || DEFAULT_ULT_SKILLS;
   const availableClans = gameConfig?.clanSkills || DEFAULT_CLAN_SKILLS;
   const profColors = gameConfig?.professionColors || CLASS_COLORS;
+  const knownTags = collectTags(localPool);
+  const activeMembers = localPool.filter(m => !m.archived);
+  const archivedMembers = localPool.filter(m => m.archived);
+  const editingHistory = editForm.id ? historyStats?.get(editForm.id) : undefined;
 
   const handleSaveSingle = () => {
     if (!editForm.name) return;
     
-    const existingIndex = localPool.findIndex(m => m.name === editForm.name);
+    const match = findDuplicate(localPool, editForm.name, editForm.id);
     let newPool = [...localPool];
+    const existingIndex = match ? newPool.indexOf(match.member) : -1;
 
-    if (existingIndex >= 0) {
-      if (window.confirm(`成员 ${editForm.name} 已存在，是否覆盖?`)) {
-         newPool[existingIndex] = { ...newPool[existingIndex], ...editForm } as Member;
+    // Editing an existing record always updates it in place, even when renamed
+    if (editForm.id) {
+      if (match && !window.confirm(`「${editForm.name}」与已有成员「${match.member.name}」${match.exact ? '同名' : '很相似'}，确定仍要保存? 如为同一人，可在查重中合并。`)) return;
+      newPool = newPool.map(m => m.id === editForm.id ? { ...m, ...editForm } as Member : m);
+    } else if (match?.exact) {
+      const question = match.member.archived ? `成员 ${match.member.name} 已归档，是否恢复并更新?` : `成员 ${match.member.name} 已存在，是否覆盖?`;
+      if (window.confirm(question)) {
+         newPool[existingIndex] = { ...match.member, ...editForm, id: match.member.id, name: match.member.name, archived: false } as Member;
       } else {
         return;
       }
+    } else if (match && window.confirm(`「${editForm.name}」与已有成员「${match.member.name}」很相似，可能是同一人。\n确定: 更新「${match.member.name}」\n取消: 作为新成员添加`)) {
+      newPool[existingIndex] = { ...match.member, ...editForm, id: match.member.id, name: match.member.name } as Member;
     } else {
       newPool.push({ ...editForm, id: generateId() } as Member);
     }
@@ -63,11 +244,134 @@ export const MemberEditorModal: React.FC<MemberEditorProps> = ({ pool, gameConfi
     const newPool = localPool.filter(m => m.id !== id);
     setLocalPool(newPool);
     onUpdatePool(newPool);
+    if (selectedIds.has(id)) toggleSelected(id);
+  };
+
+  // Archived members keep notes, tags and history but leave the board and the sidebar
+  const setArchived = (ids: Set<string>, archived: boolean) => {
+    const newPool = localPool.map(m => ids.has(m.id) ? { ...m, archived } : m);
+    setLocalPool(newPool);
+    onUpdatePool(newPool);
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => next.delete(id));
+      return next;
+    });
+    if (editForm.id && ids.has(editForm.id)) setEditForm({ name: '', profession: '碎梦', ult: '无', clan: '无' });
+  };
+
+  const handlePermanentDelete = (m: Member) => {
+    if (window.confirm(`永久删除「${m.name}」? 备注、标签与出场统计将无法恢复。`)) handleDelete(m.id);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const handleBulkApply = (updated: Member[]) => {
+    const byId = new Map(updated.map(m => [m.id, m]));
+    const newPool = localPool.map(m => byId.get(m.id) || m);
+    setLocalPool(newPool);
+    onUpdatePool(newPool);
+    setSelectedIds(new Set());
+    if (editForm.id && byId.has(editForm.id)) setEditForm(byId.get(editForm.id)!);
+  };
+
+  const handleBulkDelete = () => {
+    const names = localPool.filter(m => selectedIds.has(m.id)).map(m => m.name);
+    if (!window.confirm(`删除以下 ${names.length} 名成员? 他们在排布中的位置将被清空。\n${names.join('、')}`)) return;
+    const newPool = localPool.filter(m => !selectedIds.has(m.id));
+    setLocalPool(newPool);
+    onUpdatePool(newPool);
+    setSelectedIds(new Set());
+  };
+
+  const updateCharacter = (id: string, patch: Partial<MemberCharacter>) => {
+    setEditForm({ ...editForm, characters: (editForm.characters || []).map(c => c.id === id ? { ...c, ...patch } : c) });
+  };
+
+  const addCharacter = () => {
+    const character: MemberCharacter = { id: generateId(), profession: editForm.profession || '碎梦', ult: '无', clan: '无' };
+    setEditForm({ ...editForm, characters: [...(editForm.characters || []), character] });
+  };
+
+  // Folds a separately entered alt into its owner, so both can no longer be deployed at once
+  const handleAttachAsAlt = (alt: Member) => {
+    const ownerName = window.prompt(`将「${alt.name}」设为哪位成员的小号? 输入主号名字:`);
+    if (!ownerName?.trim()) return;
+    const owner = localPool.find(m => m.name === ownerName.trim() && m.id !== alt.id);
+    if (!owner) {
+      alert(`未找到成员「${ownerName.trim()}」。`);
+      return;
+    }
+    if (!window.confirm(`「${alt.name}」将并入「${owner.name}」作为小号，原条目会被删除。标签、备注、自定义字段、出勤与出场记录并入「${owner.name}」，排布位置转给「${owner.name}」以该小号出战（「${owner.name}」已在同一排布中时清空）；「${alt.name}」的战力、等级与装备不保留。继续?`)) return;
+    const characterId = generateId();
+    const merged = attachAltRecord(owner, alt, characterId);
+    const newPool = localPool.filter(m => m.id !== alt.id).map(m => m.id === owner.id ? merged : m);
+    setLocalPool(newPool);
+    if (editForm.id === alt.id || editForm.id === owner.id) setEditForm(merged);
+    if (onMergeMembers) onMergeMembers(owner.id, alt.id, characterId);
+    else onUpdatePool(newPool);
+  };
+
+  const handleSpreadsheetImport = (rows: SpreadsheetRow[]) => {
+    const { pool: newPool, added, updated, restored } = applySpreadsheetRows(localPool, rows);
+    const ults = new Set(availableUlts);
+    const clans = new Set(availableClans);
+    newPool.forEach(m => {
+      if (m.ult && m.ult !== '无') ults.add(m.ult);
+      if (m.clan && m.clan !== '无') clans.add(m.clan);
+    });
+    if (ults.size !== availableUlts.length || clans.size !== availableClans.length) {
+      onUpdateGameConfig({ ...gameConfig, ultSkills: Array.from(ults), clanSkills: Array.from(clans) });
+    }
+    setLocalPool(newPool);
+    onUpdatePool(newPool);
+    alert(`表格导入完成。新增: ${added} 人，更新: ${updated} 人${restored > 0 ? `（其中 ${restored} 人已从归档恢复）` : ''}。`);
+    reviewNewDuplicates(newPool);
+  };
+
+  const pairKey = (a: Member, b: Member) => [a.id, b.id].sort().join('|');
+  const duplicatePairs = findDuplicatePairs(localPool).filter(([a, b]) => !notDuplicates.has(pairKey(a, b)));
+
+  // After an import, newly added members that look like existing ones are brought up for review
+  const reviewNewDuplicates = (newPool: Member[]) => {
+    const before = new Set(localPool.map(m => m.id));
+    const suspicious = findDuplicatePairs(newPool).filter(([a, b]) => !before.has(a.id) || !before.has(b.id));
+    if (suspicious.length === 0) return;
+    alert(`发现 ${suspicious.length} 对疑似重复的成员，请在「查重」中确认是否合并。`);
+    setActiveTab('duplicates');
+  };
+
+  const handleMerge = (survivor: Member, duplicate: Member) => {
+    if (!window.confirm(`将「${duplicate.name}」合并到「${survivor.name}」? 「${duplicate.name}」的条目会被删除，其排布位置与出场记录转给「${survivor.name}」。`)) return;
+    const merged = mergeMemberRecords(survivor, duplicate);
+    const newPool = localPool.filter(m => m.id !== duplicate.id).map(m => m.id === survivor.id ? merged : m);
+    setLocalPool(newPool);
+    if (editForm.id === duplicate.id || editForm.id === survivor.id) setEditForm(merged);
+    if (onMergeMembers) onMergeMembers(survivor.id, duplicate.id);
+    else onUpdatePool(newPool);
+  };
+
+  const handleAddCustomField = () => {
+    const key = window.prompt("字段名称 (如 帮会职位、QQ):");
+    if (!key?.trim() || editForm.custom?.[key.trim()] !== undefined) return;
+    setEditForm({ ...editForm, custom: { ...editForm.custom, [key.trim()]: '' } });
+  };
+
+  const handleRemoveCustomField = (key: string) => {
+    const { [key]: _, ...custom } = editForm.custom || {};
+    setEditForm({ ...editForm, custom });
   };
 
   const handleBatchImport = () => {
     const lines = batchText.trim().split('\n');
     let addedCount = 0;
+    let restoredCount = 0;
     const newPool = [...localPool];
     
     // Track new skills to auto-add to config
@@ -76,7 +380,17 @@ export const MemberEditorModal: React.FC<MemberEditorProps> = ({ pool, gameConfi
     let configChanged = false;
 
     lines.forEach(line => {
-      const parts = line.trim().split(/\s+/);
+      const stats: Partial<Record<MemberStatKey, number>> = {};
+      const tags: string[] = [];
+      const parts = line.trim().split(/\s+/).filter(token => {
+        if (token.length > 1 && token.startsWith('#')) {
+          tags.push(token);
+          return false;
+        }
+        const match = token.match(STAT_TOKEN);
+        if (match) stats[STAT_TOKEN_KEYS[match[1]]] = Number(match[2]);
+        return !match;
+      });
       if (parts.length >= 2) {
         const name = parts[0];
         const profession = parts[1];
@@ -94,15 +408,19 @@ export const MemberEditorModal: React.FC<MemberEditorProps> = ({ pool, gameConfi
             configChanged = true;
         }
 
-        const existingIdx = newPool.findIndex(m => m.name === name);
+        const existingIdx = newPool.findIndex(m => normalizeMemberName(m.name) === normalizeMemberName(name));
         if (existingIdx >= 0) {
-           // Update existing
+           // Update existing; archived members listed again are restored, like re-adding them by hand
+           if (newPool[existingIdx].archived) restoredCount++;
            newPool[existingIdx] = {
              ...newPool[existingIdx],
              profession,
              ult,
              clan,
-             note: note || newPool[existingIdx].note
+             note: note || newPool[existingIdx].note,
+             ...stats,
+             tags: tags.length > 0 ? mergeTags(newPool[existingIdx].tags, tags) : newPool[existingIdx].tags,
+             archived: false
            };
         } else {
            // Add new
@@ -112,7 +430,9 @@ export const MemberEditorModal: React.FC<MemberEditorProps> = ({ pool, gameConfi
             profession,
             ult,
             clan,
-            note
+            note,
+            ...stats,
+            ...(tags.length > 0 ? { tags: mergeTags([], tags) } : {})
           });
           addedCount++;
         }
@@ -129,8 +449,9 @@ export const MemberEditorModal: React.FC<MemberEditorProps> = ({ pool, gameConfi
     
     setLocalPool(newPool);
     onUpdatePool(newPool);
-    alert(`批量处理完成。新增: ${addedCount} 人，同时更新了所有匹配成员信息及技能配置。`);
+    alert(`批量处理完成。新增: ${addedCount} 人，同时更新了所有匹配成员信息及技能配置。${restoredCount > 0 ? `其中 ${restoredCount} 人已从归档恢复。` : ''}`);
     setBatchText('');
+    reviewNewDuplicates(newPool);
   };
 
   return (
@@ -149,6 +470,24 @@ export const MemberEditorModal: React.FC<MemberEditorProps> = ({ pool, gameConfi
           >
             批量导入
           </button>
+          <button 
+            className={`px-6 py-3 font-medium text-sm transition-colors ${activeTab === 'sheet' ? 'text-primary border-b-2 border-primary bg-white dark:bg-slate-800' : 'text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200'}`}
+            onClick={() => setActiveTab('sheet')}
+          >
+            表格导入
+          </button>
+          <button 
+            className={`px-6 py-3 font-medium text-sm transition-colors ${activeTab === 'duplicates' ? 'text-primary border-b-2 border-primary bg-white dark:bg-slate-800' : 'text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200'}`}
+            onClick={() => setActiveTab('duplicates')}
+          >
+            查重{duplicatePairs.length > 0 && <span className="ml-1.5 text-xs bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300 px-1.5 rounded-full">{duplicatePairs.length}</span>}
+          </button>
+          <button 
+            className={`px-6 py-3 font-medium text-sm transition-colors ${activeTab === 'archived' ? 'text-primary border-b-2 border-primary bg-white dark:bg-slate-800' : 'text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200'}`}
+            onClick={() => setActiveTab('archived')}
+          >
+            已归档 ({archivedMembers.length})
+          </button>
         </div>
 
         <div className="flex-1 p-6 overflow-hidden">
@@ -156,10 +495,20 @@ export const MemberEditorModal: React.FC<MemberEditorProps> = ({ pool, gameConfi
             <div className="flex gap-6 h-full">
               {/* List */}
               <div className="w-1/3 bg-gray-50 dark:bg-slate-900 rounded-lg border border-gray-200 dark:border-slate-700 flex flex-col shadow-inner">
-                 <div className="p-3 border-b border-gray-200 dark:border-slate-700 text-xs font-bold text-gray-500 uppercase tracking-wider">现有成员 ({localPool.length})</div>
+                 <label className="p-3 border-b border-gray-200 dark:border-slate-700 text-xs font-bold text-gray-500 uppercase tracking-wider flex items-center gap-2 cursor-pointer">
+                   <input
+                     type="checkbox"
+                     className="accent-primary"
+                     checked={activeMembers.length > 0 && selectedIds.size === activeMembers.length}
+                     onChange={e => setSelectedIds(e.target.checked ? new Set(activeMembers.map(m => m.id)) : new Set())}
+                   />
+                   现有成员 ({activeMembers.length})
+                   {selectedIds.size > 0 && <span className="ml-auto text-primary dark:text-teal-400 normal-case">已选 {selectedIds.size}</span>}
+                 </label>
                  <div className="overflow-y-auto flex-1 p-2 space-y-1 custom-scrollbar">
-                    {localPool.sort((a,b) => a.profession.localeCompare(b.profession)).map(m => (
-                      <div key={m.id} className="flex justify-between items-center bg-white dark:bg-slate-800 p-2.5 rounded border border-gray-100 dark:border-slate-700 hover:border-primary/30 transition-colors group shadow-sm">
+                    {activeMembers.sort((a,b) => a.profession.localeCompare(b.profession)).map(m => (
+                      <div key={m.id} className={`flex justify-between items-center bg-white dark:bg-slate-800 p-2.5 rounded border hover:border-primary/30 transition-colors group shadow-sm ${selectedIds.has(m.id) ? 'border-primary/50' : 'border-gray-100 dark:border-slate-700'}`}>
+                        <input type="checkbox" className="accent-primary mr-2" checked={selectedIds.has(m.id)} onChange={() => toggleSelected(m.id)} />
                         <div onClick={() => setEditForm(m)} className="cursor-pointer flex-1 flex items-center">
                           <span 
                             className="text-white font-bold mr-2 text-[10px] px-1.5 py-0.5 rounded"
@@ -168,15 +517,31 @@ export const MemberEditorModal: React.FC<MemberEditorProps> = ({ pool, gameConfi
                             {m.profession}
                           </span>
                           <span className="text-sm font-medium text-gray-700 dark:text-gray-200">{m.name}</span>
+                          {m.characters && m.characters.length > 0 && <span className="ml-1.5 text-[10px] text-gray-400" title={m.characters.map(c => `${c.name || m.name} ${c.profession}`).join('、')}>+{m.characters.length}号</span>}
+                          {m.tags?.slice(0, 2).map(t => <TagChip key={t} tag={t} className="text-[10px] ml-1.5" />)}
+                          {m.power !== undefined && <span className="ml-auto mr-2 text-xs font-mono text-gray-400">{m.power.toLocaleString()}</span>}
                         </div>
-                        <button onClick={() => handleDelete(m.id)} className="text-red-400 opacity-0 group-hover:opacity-100 hover:text-red-500 p-1 hover:bg-red-50 dark:hover:bg-red-900/20 rounded"><Trash2 size={14} /></button>
+                        <button onClick={() => handleAttachAsAlt(m)} className="text-gray-400 opacity-0 group-hover:opacity-100 hover:text-primary p-1 hover:bg-primary/10 rounded" title="设为其他成员的小号"><Link2 size={14} /></button>
+                        <button onClick={() => setArchived(new Set([m.id]), true)} className="text-gray-400 opacity-0 group-hover:opacity-100 hover:text-amber-600 p-1 hover:bg-amber-50 dark:hover:bg-amber-900/20 rounded" title="归档 (暂时离队，保留资料)"><Archive size={14} /></button>
                       </div>
                     ))}
                  </div>
               </div>
 
-              {/* Form */}
-              <div className="flex-1 space-y-5">
+              {selectedIds.size > 0 ? (
+                <BulkEditPanel
+                  members={localPool.filter(m => selectedIds.has(m.id))}
+                  ults={availableUlts}
+                  clans={availableClans}
+                  knownTags={knownTags}
+                  onApply={handleBulkApply}
+                  onDelete={handleBulkDelete}
+                  onArchive={() => setArchived(selectedIds, true)}
+                  onCancel={() => setSelectedIds(new Set())}
+                />
+              ) : (
+              /* Form */
+              <div className="flex-1 space-y-5 overflow-y-auto custom-scrollbar pr-1">
                 <h4 className="text-lg font-bold text-gray-800 dark:text-gray-100 border-b border-gray-200 dark:border-slate-700 pb-2 flex items-center gap-2">
                     <CheckCircle2 size={20} className="text-primary dark:text-teal-400"/>
                     编辑 / 新增
@@ -231,8 +596,93 @@ export const MemberEditorModal: React.FC<MemberEditorProps> = ({ pool, gameConfi
                       placeholder="可选备注"
                     />
                   </div>
+                  <div className="col-span-2">
+                    <label className="block text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1.5 uppercase flex items-center gap-1"><Tag size={12} /> 标签</label>
+                    <TagInput tags={editForm.tags || []} suggestions={knownTags} onChange={tags => setEditForm({ ...editForm, tags })} />
+                  </div>
+                  <div className="col-span-2 grid grid-cols-3 gap-5">
+                    {MEMBER_STATS.map(({ key, label }) => (
+                      <div key={key}>
+                        <label className="block text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1.5 uppercase">{label}</label>
+                        <input
+                          type="number"
+                          min={0}
+                          className="w-full bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md p-2.5 text-gray-900 dark:text-white font-mono focus:border-primary focus:ring-1 focus:ring-primary outline-none transition-all"
+                          value={editForm[key] ?? ''}
+                          onChange={e => setEditForm({ ...editForm, [key]: e.target.value === '' ? undefined : Number(e.target.value) })}
+                          placeholder="可选"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <div className="col-span-2">
+                    <label className="block text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1.5 uppercase flex items-center gap-1"><Users size={12} /> 小号</label>
+                    <div className="space-y-2">
+                      {(editForm.characters || []).map(c => (
+                        <div key={c.id} className="flex gap-2 items-center">
+                          <input
+                            className="flex-1 min-w-0 bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md px-2 py-1.5 text-sm text-gray-900 dark:text-white focus:border-primary outline-none"
+                            value={c.name || ''}
+                            onChange={e => updateCharacter(c.id, { name: e.target.value || undefined })}
+                            placeholder="小号名字 (同主号可留空)"
+                          />
+                          <select className="bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md px-2 py-1.5 text-sm text-gray-900 dark:text-white focus:border-primary outline-none" value={c.profession} onChange={e => updateCharacter(c.id, { profession: e.target.value })}>
+                            {Object.keys(CLASS_COLORS).map(p => <option key={p} value={p}>{p}</option>)}
+                          </select>
+                          <select className="bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md px-2 py-1.5 text-sm text-gray-900 dark:text-white focus:border-primary outline-none" value={c.ult} onChange={e => updateCharacter(c.id, { ult: e.target.value })}>
+                            {availableUlts.map(u => <option key={u} value={u}>{u}</option>)}
+                          </select>
+                          <select className="bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md px-2 py-1.5 text-sm text-gray-900 dark:text-white focus:border-primary outline-none" value={c.clan} onChange={e => updateCharacter(c.id, { clan: e.target.value })}>
+                            {availableClans.map(cl => <option key={cl} value={cl}>{cl}</option>)}
+                          </select>
+                          <button onClick={() => setEditForm({ ...editForm, characters: editForm.characters!.filter(x => x.id !== c.id) })} className="text-red-400 hover:text-red-500 p-1"><Trash2 size={14} /></button>
+                        </div>
+                      ))}
+                      <button onClick={addCharacter} className="text-xs text-primary dark:text-teal-400 font-bold flex items-center gap-1 hover:underline">
+                        <Plus size={12} /> 添加小号
+                      </button>
+                    </div>
+                  </div>
+                  <div className="col-span-2">
+                    <label className="block text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1.5 uppercase">自定义字段</label>
+                    <div className="space-y-2">
+                      {Object.entries(editForm.custom || {}).map(([key, value]) => (
+                        <div key={key} className="flex gap-2 items-center">
+                          <span className="w-24 shrink-0 text-sm text-gray-600 dark:text-slate-300 truncate" title={key}>{key}</span>
+                          <input
+                            className="flex-1 min-w-0 bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md px-2 py-1.5 text-sm text-gray-900 dark:text-white focus:border-primary outline-none"
+                            value={value}
+                            onChange={e => setEditForm({ ...editForm, custom: { ...editForm.custom, [key]: e.target.value } })}
+                          />
+                          <button onClick={() => handleRemoveCustomField(key)} className="text-red-400 hover:text-red-500 p-1"><Trash2 size={14} /></button>
+                        </div>
+                      ))}
+                      <button onClick={handleAddCustomField} className="text-xs text-primary dark:text-teal-400 font-bold flex items-center gap-1 hover:underline">
+                        <Plus size={12} /> 添加字段
+                      </button>
+                    </div>
+                  </div>
                 </div>
 
+                {editingHistory && (
+                  <div className="bg-gray-50 dark:bg-slate-900 rounded-lg border border-gray-200 dark:border-slate-700 p-3">
+                    <div className="text-xs font-semibold text-gray-500 dark:text-gray-400 mb-2 uppercase flex items-center gap-1"><History size={12} /> 出场记录</div>
+                    <div className="grid grid-cols-4 gap-3 text-center">
+                      {[
+                        { label: '出场', value: editingHistory.played },
+                        { label: '替补', value: editingHistory.benched },
+                        { label: '连续未出场', value: editingHistory.benchStreak },
+                        { label: '最近出场', value: editingHistory.lastPlayed || '—' },
+                      ].map(({ label, value }) => (
+                        <div key={label}>
+                          <div className="text-base font-bold font-mono text-gray-800 dark:text-gray-100">{value}</div>
+                          <div className="text-[11px] text-gray-400">{label}</div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 <div className="flex gap-3 pt-6 border-t border-gray-100 dark:border-slate-700 mt-auto">
                    <button onClick={handleSaveSingle} className="bg-primary hover:bg-primary/90 text-white px-6 py-2.5 rounded-md font-bold flex items-center gap-2 shadow-md transition-transform active:scale-95">
                      <Save size={18} /> 保存 / 新增
@@ -242,15 +692,65 @@ export const MemberEditorModal: React.FC<MemberEditorProps> = ({ pool, gameConfi
                    </button>
                 </div>
               </div>
+              )}
+            </div>
+          ) : activeTab === 'sheet' ? (
+            <SpreadsheetImportPanel pool={localPool} onImport={handleSpreadsheetImport} />
+          ) : activeTab === 'archived' ? (
+            <div className="flex flex-col h-full gap-3">
+              <div className="text-sm text-gray-500 dark:text-slate-400 bg-blue-50 dark:bg-blue-900/20 p-3 rounded border border-blue-100 dark:border-blue-900/30">
+                <span className="font-bold text-blue-600 dark:text-blue-400">已归档:</span> 暂时离队的成员，保留备注、标签与出场记录，但不会出现在待命列表中，也无法上阵。
+              </div>
+              <div className="flex-1 overflow-y-auto custom-scrollbar space-y-1">
+                {archivedMembers.length === 0 && <div className="text-sm text-gray-400 text-center mt-10">没有归档的成员</div>}
+                {archivedMembers.map(m => (
+                  <div key={m.id} className="flex items-center gap-2 bg-white dark:bg-slate-800 p-2.5 rounded border border-gray-100 dark:border-slate-700 shadow-sm">
+                    <span className="text-white font-bold text-[10px] px-1.5 py-0.5 rounded" style={{ backgroundColor: profColors[m.profession] || '#999' }}>{m.profession}</span>
+                    <span className="text-sm font-medium text-gray-700 dark:text-gray-200">{m.name}</span>
+                    {m.note && <span className="text-xs text-gray-400 truncate">{m.note}</span>}
+                    <button onClick={() => setArchived(new Set([m.id]), false)} className="ml-auto text-xs font-bold text-primary dark:text-teal-400 border border-primary/40 rounded px-2 py-1 hover:bg-primary/10 flex items-center gap-1">
+                      <ArchiveRestore size={12} /> 恢复
+                    </button>
+                    <button onClick={() => handlePermanentDelete(m)} className="text-red-400 hover:text-red-500 p-1 hover:bg-red-50 dark:hover:bg-red-900/20 rounded" title="永久删除"><Trash2 size={14} /></button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : activeTab === 'duplicates' ? (
+            <div className="flex flex-col h-full gap-3">
+              <div className="text-sm text-gray-500 dark:text-slate-400 bg-blue-50 dark:bg-blue-900/20 p-3 rounded border border-blue-100 dark:border-blue-900/30">
+                <span className="font-bold text-blue-600 dark:text-blue-400">查重:</span> 忽略首尾空格、全角/半角与大小写后同名，或仅差一两个字的成员。合并时选择保留哪一条，另一条的排布位置会转给它。
+              </div>
+              <div className="flex-1 overflow-y-auto custom-scrollbar space-y-2">
+                {duplicatePairs.length === 0 && <div className="text-sm text-gray-400 text-center mt-10">没有发现疑似重复的成员</div>}
+                {duplicatePairs.map(([a, b]) => (
+                  <div key={pairKey(a, b)} className="flex items-center gap-3 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded-lg p-3">
+                    {[[a, b], [b, a]].map(([keep, drop]) => (
+                      <div key={keep.id} className="flex-1 flex items-center gap-2 min-w-0">
+                        <span className="text-white font-bold text-[10px] px-1.5 py-0.5 rounded shrink-0" style={{ backgroundColor: profColors[keep.profession] || '#999' }}>{keep.profession}</span>
+                        <span className="font-bold truncate" title={`"${keep.name}"`}>{keep.name}</span>
+                        {keep.archived && <span className="text-[10px] text-gray-400 border border-gray-300 dark:border-slate-600 rounded px-1 shrink-0">已归档</span>}
+                        <span className="text-xs text-gray-400 truncate">{[keep.ult !== '无' ? keep.ult : '', keep.note].filter(Boolean).join(' · ')}</span>
+                        <button onClick={() => handleMerge(keep, drop)} className="ml-auto shrink-0 text-xs font-bold text-primary dark:text-teal-400 border border-primary/40 rounded px-2 py-1 hover:bg-primary/10">
+                          保留此条
+                        </button>
+                      </div>
+                    ))}
+                    <button onClick={() => setNotDuplicates(prev => new Set(prev).add(pairKey(a, b)))} className="shrink-0 text-xs text-gray-400 hover:text-gray-700 dark:hover:text-gray-200" title="不是同一人">
+                      <X size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
             </div>
           ) : (
             <div className="flex flex-col h-full">
               <div className="mb-3 text-sm text-gray-500 dark:text-slate-400 bg-blue-50 dark:bg-blue-900/20 p-3 rounded border border-blue-100 dark:border-blue-900/30">
-                <span className="font-bold text-blue-600 dark:text-blue-400">格式说明:</span> 名字 职业 [绝技] [百家] [备注] (空格分隔)
+                <span className="font-bold text-blue-600 dark:text-blue-400">格式说明:</span> 名字 职业 [绝技] [百家] [备注] (空格分隔)，可追加 战力=数值 等级=数值 装评=数值 #标签
               </div>
               <textarea 
                 className="flex-1 bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-lg p-4 font-mono text-sm text-gray-800 dark:text-white focus:border-primary outline-none resize-none shadow-inner"
-                placeholder={"Player1 碎梦 红莲\nPlayer2 素问\nPlayer3 铁衣 凛月 金钟罩 指挥"}
+                placeholder={"Player1 碎梦 红莲\nPlayer2 素问 战力=98000\nPlayer3 铁衣 凛月 金钟罩 指挥 战力=120000 等级=95 #指挥 #主力"}
                 value={batchText}
                 onChange={e => setBatchText(e.target.value)}
               />
@@ -290,7 +790,7 @@ export const StructureEditorModal: React.FC<StructureEditorProps> = ({ data, onU
       group.squads.push({
         id: generateId(),
         name: `${group.name}-${group.squads.length + 1}队`,
-        slots: Array(6).fill(null).map(() => ({ id: generateId(), memberId: null, note: '' }))
+        slots: Array(6).fill(null).map(() => ({ id: generateId(), memberId: null }))
       });
     } else if (group.squads.length > 0) {
       // Remove squad (check if empty?)
@@ -316,7 +816,7 @@ export const StructureEditorModal: React.FC<StructureEditorProps> = ({ data, onU
            {
              id: generateId(),
              name: '新团-1队',
-             slots: Array(6).fill(null).map(() => ({ id: generateId(), memberId: null, note: '' }))
+             slots: Array(6).fill(null).map(() => ({ id: generateId(), memberId: null }))
            }
         ]
       }
@@ -340,9 +840,8 @@ export const StructureEditorModal: React.FC<StructureEditorProps> = ({ data, onU
     <Modal title="架构配置" onClose={onClose} maxWidth="max-w-4xl">
       <div className="p-6 space-y-4">
         {localGroups.map((group, idx) => {
-          // Fallback logic for old data to pre-fill UI if new fields missing
-          const currentColor = group.color || (group.theme ? GROUP_COLORS.find(c => group.theme?.includes(c.label))?.value : GROUP_COLORS[0].value);
-          const currentStrategy = group.strategy || (group.theme ? group.theme.split('(')[0] : '综合');
+          const currentColor = group.color || GROUP_COLORS[0].value;
+          const currentStrategy = group.strategy || '综合';
 
           return (
             <div key={group.id} className="bg-white dark:bg-slate-800 p-4 rounded-lg border border-gray-200 dark:border-slate-700 flex flex-col gap-4 shadow-sm">
@@ -537,20 +1036,30 @@ export const GameConfigModal: React.FC<GameConfigProps> = ({ config, onUpdate, o
 // --- Skill Editor Modal (Right Click) ---
 interface SkillEditorProps {
   member: Member;
+  characterId?: string; // Character deployed in the clicked slot; skill edits apply to it
   gameConfig: GameConfig;
   onUpdate: (m: Member) => void;
+  onSelectCharacter?: (characterId?: string) => void;
   onClose: () => void;
   position: { x: number, y: number };
 }
 
-export const SkillEditorModal: React.FC<SkillEditorProps> = ({ member, gameConfig, onUpdate, onClose, position }) => {
-  const [form, setForm] = useState({ ult: member.ult, clan: member.clan, note: member.note || '' });
+export const SkillEditorModal: React.FC<SkillEditorProps> = ({ member, characterId, gameConfig, onUpdate, onSelectCharacter, onClose, position }) => {
+  const deployed = deployedAs(member, characterId);
+  const [form, setForm] = useState({ ult: deployed.ult, clan: deployed.clan, note: member.note || '' });
+  const characters = listCharacters(member);
+  const activeCharacterId = deployed === member ? undefined : characterId;
 
   const availableUlts = gameConfig?.ultSkills || DEFAULT_ULT_SKILLS;
   const availableClans = gameConfig?.clanSkills || DEFAULT_CLAN_SKILLS;
 
   const handleSave = () => {
-    onUpdate({ ...member, ...form });
+    onUpdate({ ...updateDeployedSkills(member, characterId, { ult: form.ult, clan: form.clan }), note: form.note });
+    onClose();
+  };
+
+  const handleSelectCharacter = (id?: string) => {
+    onSelectCharacter?.(id);
     onClose();
   };
 
@@ -563,6 +1072,25 @@ export const SkillEditorModal: React.FC<SkillEditorProps> = ({ member, gameConfi
       >
         <h4 className="font-bold text-gray-800 dark:text-white mb-3 border-b border-gray-100 dark:border-slate-700 pb-2">技能调整: <span className="text-primary">{member.name}</span></h4>
         <div className="space-y-3">
+          {characters.length > 1 && onSelectCharacter && (
+            <div>
+              <label className="text-xs font-bold text-gray-500 dark:text-slate-400 block mb-1 uppercase">出战角色</label>
+              <div className="flex flex-col gap-1">
+                {characters.map((c, i) => {
+                  const active = c.id === activeCharacterId;
+                  return (
+                    <button
+                      key={c.id || 'main'}
+                      onClick={() => handleSelectCharacter(c.id)}
+                      className={`text-left text-sm px-2 py-1 rounded border transition-colors ${active ? 'border-primary bg-primary/10 text-primary dark:text-teal-400 font-bold' : 'border-gray-200 dark:border-slate-600 hover:border-primary/50'}`}
+                    >
+                      {c.name} · {c.profession}{i === 0 ? ' (主号)' : ''}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
           <div>
             <label className="text-xs font-bold text-gray-500 dark:text-slate-400 block mb-1 uppercase">绝技</label>
             <select 
@@ -0,0 +1,100 @@
+
+import React, { useState, useMemo } from 'react';
+import { AppData } from '../types';
+import { syncActivePlan, switchPlan, createPlan, duplicatePlan, renamePlan, deletePlan, getActivePlan } from '../services/plans';
+import { FolderOpen, ChevronDown, Plus, Copy, Pencil, Trash2, Check } from 'lucide-react';
+
+interface PlanSwitcherProps {
+  data: AppData;
+  onChange: (newData: AppData) => void;
+}
+
+const PlanSwitcher: React.FC<PlanSwitcherProps> = ({ data, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const library = useMemo(() => syncActivePlan(data), [data]);
+  const plans = library.plans!;
+  const activePlan = getActivePlan(library);
+
+  const handleSwitch = (planId: string) => {
+    if (planId !== library.activePlanId) onChange(switchPlan(data, planId));
+    setOpen(false);
+  };
+
+  const handleCreate = () => {
+    const name = window.prompt("新方案名称 (沿用当前架构，不含成员):", `方案${plans.length + 1}`);
+    if (!name?.trim()) return;
+    onChange(createPlan(data, name.trim()));
+    setOpen(false);
+  };
+
+  const handleDuplicate = (planId: string, currentName: string) => {
+    const name = window.prompt("副本名称:", `${currentName} 副本`);
+    if (!name?.trim()) return;
+    onChange(duplicatePlan(data, planId, name.trim()));
+    setOpen(false);
+  };
+
+  const handleRename = (planId: string, currentName: string) => {
+    const name = window.prompt("重命名方案:", currentName);
+    if (!name?.trim() || name.trim() === currentName) return;
+    onChange(renamePlan(data, planId, name.trim()));
+  };
+
+  const handleDelete = (planId: string, name: string) => {
+    if (plans.length <= 1) {
+      alert("至少需要保留一个方案。");
+      return;
+    }
+    if (window.confirm(`确定删除方案「${name}」? 该方案的排布将无法恢复。`)) {
+      onChange(deletePlan(data, planId));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={() => setOpen(!open)} className={`btn-toolbar max-w-[220px] ${open ? 'bg-gray-100 dark:bg-slate-700 text-primary border-primary' : ''}`} title="切换排兵方案">
+        <FolderOpen size={16} className="shrink-0" />
+        <span className="truncate">{activePlan?.name || '方案'}</span>
+        <ChevronDown size={14} className="shrink-0" />
+      </button>
+
+      {open && (
+        <div className="absolute top-full left-0 mt-2 w-80 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-600 rounded-lg shadow-xl z-50 animate-in slide-in-from-top-2 overflow-hidden">
+          <div className="px-4 py-2 border-b border-gray-100 dark:border-slate-700 text-xs font-bold text-gray-500 uppercase tracking-wider">
+            方案库 ({plans.length})
+          </div>
+          <div className="max-h-80 overflow-y-auto custom-scrollbar p-2 space-y-1">
+            {plans.map(plan => {
+              const isActive = plan.id === library.activePlanId;
+              const assigned = plan.groups.reduce((sum, g) => sum + g.squads.reduce((s, sq) => s + sq.slots.filter(sl => sl.memberId).length, 0), 0);
+              return (
+                <div
+                  key={plan.id}
+                  className={`flex items-center gap-2 px-3 py-2 rounded border group transition-colors ${isActive ? 'border-primary bg-primary/5 dark:bg-primary/20' : 'border-transparent hover:bg-gray-50 dark:hover:bg-slate-700'}`}
+                >
+                  <button onClick={() => handleSwitch(plan.id)} className="flex-1 flex items-center gap-2 min-w-0 text-left">
+                    <span className="w-4 shrink-0 text-primary">{isActive && <Check size={14} />}</span>
+                    <span className={`truncate text-sm ${isActive ? 'font-bold text-primary dark:text-teal-400' : 'text-gray-700 dark:text-gray-200'}`}>{plan.name}</span>
+                    <span className="text-[10px] font-mono text-gray-400 shrink-0">{assigned}人</span>
+                  </button>
+                  <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button onClick={() => handleRename(plan.id, plan.name)} className="p-1 rounded text-gray-400 hover:text-primary hover:bg-gray-100 dark:hover:bg-slate-600" title="重命名"><Pencil size={13} /></button>
+                    <button onClick={() => handleDuplicate(plan.id, plan.name)} className="p-1 rounded text-gray-400 hover:text-primary hover:bg-gray-100 dark:hover:bg-slate-600" title="复制"><Copy size={13} /></button>
+                    <button onClick={() => handleDelete(plan.id, plan.name)} className="p-1 rounded text-red-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20" title="删除"><Trash2 size={13} /></button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          <div className="p-2 border-t border-gray-100 dark:border-slate-700">
+            <button onClick={handleCreate} className="w-full flex items-center justify-center gap-2 text-primary font-bold text-sm px-3 py-2 rounded hover:bg-primary/10 transition-colors">
+              <Plus size={16} /> 新建方案
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlanSwitcher;
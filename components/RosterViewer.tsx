@@ -0,0 +1,253 @@
+
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { AppData, Member, CLASS_COLORS, GROUP_COLORS } from '../types';
+import { loadData } from '../services/storage';
+import { getActivePlan } from '../services/plans';
+import { deployedAs } from '../services/characters';
+import { readShareFromLocation, getPublishedUrl, fetchPublishedRoster, parsePublishedRoster, getEditorUrl } from '../services/share';
+import { Search, X, Moon, Sun, Pencil, FolderOpen, MapPin, Eye } from 'lucide-react';
+
+interface SearchHit {
+  member: Member;
+  slotId: string | null; // null when the member is in the pool but not on the board
+  label: string;
+}
+
+const normalize = (s: string) => s.trim().toLowerCase();
+
+// Benched members have no slot id, so their highlight/scroll target is keyed by member id
+const benchKey = (memberId: string) => `bench:${memberId}`;
+
+// Read-only board for guild members: no sidebar, no editing handlers, stacks into one column on phones.
+// Data comes from a share link hash, a published file (?view=<url>), or this browser's own roster.
+const RosterViewer: React.FC = () => {
+  const [data, setData] = useState<AppData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [focusedSlotId, setFocusedSlotId] = useState<string | null>(null);
+  const [themeMode, setThemeMode] = useState<'light' | 'dark'>(() => {
+    const saved = localStorage.getItem('nsh_roster_theme');
+    if (saved === 'dark' || saved === 'light') return saved;
+    return window.matchMedia && window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light';
+  });
+  const slotRefs = useRef(new Map<string, HTMLElement>());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const shared = await readShareFromLocation();
+      if (shared) return shared;
+      const url = getPublishedUrl();
+      return url ? fetchPublishedRoster(url) : loadData();
+    };
+    load().then(setData).catch(err => {
+      console.error("Viewer load error:", err);
+      setError("阵容加载失败，链接或文件可能已失效。");
+    });
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.classList.toggle('dark', themeMode === 'dark');
+  }, [themeMode]);
+
+  const hits = useMemo<SearchHit[]>(() => {
+    const q = normalize(query);
+    if (!data || !q) return [];
+    const placed = new Map<string, { slotId: string; label: string }>();
+    data.groups.forEach(g => {
+      g.squads.forEach(s => {
+        s.slots.forEach((sl, k) => {
+          if (sl.memberId) placed.set(sl.memberId, { slotId: sl.id, label: `${g.name} / ${s.name} #${k + 1}` });
+        });
+        s.bench?.forEach(id => placed.set(id, { slotId: benchKey(id), label: `${g.name} / ${s.name} 替补` }));
+      });
+      g.bench?.forEach(id => placed.set(id, { slotId: benchKey(id), label: `${g.name} 团替补` }));
+    });
+    return data.pool
+      .filter(m => normalize(m.name).includes(q))
+      .map(m => {
+        const p = placed.get(m.id);
+        return { member: m, slotId: p?.slotId || null, label: p?.label || '本场未上阵' };
+      });
+  }, [data, query]);
+
+  const hitSlotIds = useMemo(() => new Set(hits.map(h => h.slotId).filter(Boolean)), [hits]);
+
+  const focusSlot = (slotId: string) => {
+    setFocusedSlotId(slotId);
+    slotRefs.current.get(slotId)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent) => {
+    const first = hits.find(h => h.slotId);
+    if (e.key === 'Enter' && first) focusSlot(first.slotId!);
+  };
+
+  const handleOpenFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        setData(parsePublishedRoster(event.target?.result as string));
+        setError(null);
+      } catch (err) {
+        console.error("Viewer file error:", err);
+        alert("文件解析失败。");
+      }
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    };
+    reader.readAsText(file);
+  };
+
+  const profColors = data?.gameConfig?.professionColors || CLASS_COLORS;
+  const title = data ? getActivePlan(data)?.name || '阵容' : '阵容';
+  const memberById = useMemo(() => new Map((data?.pool || []).map(m => [m.id, m])), [data]);
+
+  const renderBench = (label: string, ids: string[] | undefined) => {
+    if (!ids || ids.length === 0) return null;
+    return (
+      <div className="mt-1.5 pt-1.5 border-t border-dashed border-gray-200 dark:border-slate-700 flex flex-wrap items-center gap-1 text-xs">
+        <span className="text-gray-400 font-bold mr-1">{label}</span>
+        {ids.map(id => {
+          const member = memberById.get(id);
+          if (!member) return null;
+          const key = benchKey(id);
+          const isHit = hitSlotIds.has(key);
+          return (
+            <span
+              key={id}
+              ref={el => { if (el) slotRefs.current.set(key, el); else slotRefs.current.delete(key); }}
+              className={`px-1.5 py-0.5 rounded border-l-2 bg-gray-50 dark:bg-slate-900/60 transition-all
+                ${isHit ? 'ring-2 ring-primary bg-primary/10 dark:bg-primary/20' : ''}
+                ${focusedSlotId === key ? 'ring-4 ring-offset-2 dark:ring-offset-slate-800' : ''}
+                ${hitSlotIds.size > 0 && !isHit ? 'opacity-40' : ''}`}
+              style={{ borderLeftColor: profColors[member.profession] || '#999' }}
+            >
+              {member.name}
+            </span>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-bg dark:bg-dark-bg text-gray-800 dark:text-gray-100 transition-colors duration-300">
+      {/* Header */}
+      <div className="sticky top-0 z-30 bg-white/90 dark:bg-slate-800/90 backdrop-blur border-b border-gray-200 dark:border-slate-700 shadow-sm">
+        <div className="max-w-6xl mx-auto px-3 py-2 space-y-2">
+          <div className="flex items-center gap-2">
+            <Eye size={18} className="text-primary dark:text-teal-400 shrink-0" />
+            <h1 className="font-black text-lg truncate flex-1">{title}</h1>
+            <button onClick={() => fileInputRef.current?.click()} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-slate-700 text-gray-500 dark:text-slate-300" title="打开已发布的文件">
+              <FolderOpen size={18} />
+            </button>
+            <input type="file" accept=".json" className="hidden" ref={fileInputRef} onChange={handleOpenFile} />
+            <button onClick={() => setThemeMode(themeMode === 'dark' ? 'light' : 'dark')} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-slate-700 text-gray-500 dark:text-slate-300" title={themeMode === 'dark' ? "切换到亮色模式" : "切换到暗黑模式"}>
+              {themeMode === 'dark' ? <Sun size={18} /> : <Moon size={18} />}
+            </button>
+            <a href={getEditorUrl()} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-slate-700 text-gray-500 dark:text-slate-300" title="在编辑器中打开">
+              <Pencil size={18} />
+            </a>
+          </div>
+          <div className="relative">
+            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              value={query}
+              onChange={e => { setQuery(e.target.value); setFocusedSlotId(null); }}
+              onKeyDown={handleSearchKeyDown}
+              placeholder="输入名字，找到自己的位置"
+              className="w-full bg-gray-50 dark:bg-slate-900 border border-gray-300 dark:border-slate-600 rounded-full pl-9 pr-9 py-2 text-base outline-none focus:border-primary"
+            />
+            {query && (
+              <button onClick={() => { setQuery(''); setFocusedSlotId(null); }} className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600">
+                <X size={16} />
+              </button>
+            )}
+          </div>
+          {query && (
+            <div className="flex gap-2 overflow-x-auto no-scrollbar pb-1">
+              {hits.length === 0 && <span className="text-xs text-gray-400 py-1">没有找到匹配的成员</span>}
+              {hits.map(h => (
+                <button
+                  key={h.member.id}
+                  disabled={!h.slotId}
+                  onClick={() => h.slotId && focusSlot(h.slotId)}
+                  className={`shrink-0 flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-full border transition-colors ${h.slotId ? 'border-primary/40 bg-primary/5 dark:bg-primary/20 text-primary dark:text-teal-300 hover:bg-primary/10' : 'border-gray-200 dark:border-slate-700 text-gray-400'}`}
+                >
+                  <MapPin size={12} />
+                  <span className="font-bold">{h.member.name}</span>
+                  <span className="opacity-80">{h.label}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Board */}
+      <div className="max-w-6xl mx-auto p-3 space-y-4">
+        {error && <div className="text-center text-sm text-red-500 mt-10">{error}</div>}
+        {!data && !error && <div className="text-center text-sm text-gray-400 mt-10">加载中...</div>}
+        {data?.groups.map(group => {
+          const themeColor = group.color || GROUP_COLORS[0].value;
+          return (
+            <div key={group.id} className="rounded-lg border border-gray-200 dark:border-slate-700 bg-white/60 dark:bg-slate-800/60 overflow-hidden">
+              <div className="px-3 py-2 font-bold flex items-center justify-between border-l-4" style={{ borderLeftColor: themeColor }}>
+                <span>{group.name}</span>
+                <span className="text-[10px] font-bold opacity-70 bg-gray-100 dark:bg-black/20 px-1.5 py-0.5 rounded">{group.strategy || "综合"}</span>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-3 p-3 pt-0">
+                {group.squads.map(squad => (
+                  <div key={squad.id} className="bg-white dark:bg-slate-800 rounded-md border border-gray-100 dark:border-slate-700 p-2">
+                    <div className="text-sm font-bold text-center text-gray-600 dark:text-slate-300 mb-1.5">{squad.name}</div>
+                    <div className="space-y-1">
+                      {squad.slots.map(slot => {
+                        const owner = slot.memberId ? memberById.get(slot.memberId) : undefined;
+                        const member = owner && deployedAs(owner, slot.characterId);
+                        const color = member ? profColors[member.profession] || '#999' : undefined;
+                        const isHit = hitSlotIds.has(slot.id);
+                        return (
+                          <div
+                            key={slot.id}
+                            ref={el => { if (el) slotRefs.current.set(slot.id, el); else slotRefs.current.delete(slot.id); }}
+                            className={`rounded px-2 py-1.5 border-l-4 transition-all duration-200
+                              ${member ? 'bg-gray-50 dark:bg-slate-900/60' : 'bg-transparent border-dashed border border-gray-200 dark:border-slate-700'}
+                              ${isHit ? 'ring-2 ring-primary bg-primary/10 dark:bg-primary/20' : ''}
+                              ${focusedSlotId === slot.id ? 'ring-4 ring-offset-2 dark:ring-offset-slate-800' : ''}
+                              ${hitSlotIds.size > 0 && !isHit ? 'opacity-40' : ''}
+                            `}
+                            style={member ? { borderLeftColor: color } : undefined}
+                          >
+                            {member ? (
+                              <>
+                                <div className="flex items-center gap-2 min-w-0">
+                                  <span className="font-black truncate">{member.name}</span>
+                                  <span className="text-[10px] font-bold text-white px-1.5 py-0.5 rounded-sm shrink-0" style={{ backgroundColor: color }}>{member.profession}</span>
+                                </div>
+                                <div className="text-xs text-gray-500 dark:text-slate-400 truncate">
+                                  {[member.ult, member.clan, member.note].filter(v => v && v !== '无').join(' · ')}
+                                </div>
+                              </>
+                            ) : (
+                              <div className="text-xs text-gray-300 dark:text-slate-600 text-center">空位</div>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                    {renderBench('替补', squad.bench)}
+                  </div>
+                ))}
+              </div>
+              {group.bench && group.bench.length > 0 && <div className="px-3 pb-3 -mt-1.5">{renderBench('团替补', group.bench)}</div>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default RosterViewer;
@@ -0,0 +1,191 @@
+
+import React, { useState, useMemo, useRef } from 'react';
+import { Member } from '../types';
+import {
+  ColumnTarget, SpreadsheetRow, MEMBER_COLUMNS, CUSTOM_PREFIX, columnLabel, parseDelimited, decodeSpreadsheetFile,
+  looksLikeHeader, guessMapping, buildSpreadsheetRows
+} from '../services/spreadsheet';
+import { Upload, FileSpreadsheet, AlertTriangle, RotateCcw } from 'lucide-react';
+
+interface SpreadsheetImportPanelProps {
+  pool: Member[];
+  onImport: (rows: SpreadsheetRow[]) => void;
+}
+
+// Paste or upload a CSV/TSV sheet, map its columns to member fields, then review every row before importing
+export const SpreadsheetImportPanel: React.FC<SpreadsheetImportPanelProps> = ({ pool, onImport }) => {
+  const [rawRows, setRawRows] = useState<string[][] | null>(null);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnTarget[]>([]);
+  const [pasteText, setPasteText] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadText = (text: string) => {
+    const rows = parseDelimited(text);
+    if (rows.length === 0) {
+      alert("没有读取到任何数据。");
+      return;
+    }
+    const header = looksLikeHeader(rows[0]);
+    setRawRows(rows);
+    setHasHeader(header);
+    setMapping(guessMapping(rows, header));
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) loadText(await decodeSpreadsheetFile(file));
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleToggleHeader = (value: boolean) => {
+    setHasHeader(value);
+    if (rawRows) setMapping(guessMapping(rawRows, value));
+  };
+
+  // Custom attributes already used in the pool or named by this sheet's header
+  const customNames = useMemo(() => {
+    const names = new Set<string>();
+    pool.forEach(m => Object.keys(m.custom || {}).forEach(k => names.add(k)));
+    mapping.forEach(t => { if (t.startsWith(CUSTOM_PREFIX)) names.add(t.slice(CUSTOM_PREFIX.length)); });
+    return Array.from(names);
+  }, [pool, mapping]);
+
+  const handleMappingChange = (col: number, value: string) => {
+    let target = value as ColumnTarget;
+    if (value === '__new_custom') {
+      const name = window.prompt("自定义字段名称:", rawRows && hasHeader ? rawRows[0][col] : '');
+      if (!name?.trim()) return;
+      target = `${CUSTOM_PREFIX}${name.trim()}` as ColumnTarget;
+    }
+    // A field can only come from one column
+    setMapping(prev => prev.map((t, i) => i === col ? target : t === target && target ? '' : t));
+  };
+
+  const rows = useMemo(() => rawRows ? buildSpreadsheetRows(rawRows, hasHeader, mapping, pool) : [], [rawRows, hasHeader, mapping, pool]);
+  const validRows = rows.filter(r => r.errors.length === 0);
+  const errorCount = rows.length - validRows.length;
+  const mappedColumns = mapping.map((t, i) => ({ target: t, col: i })).filter(c => c.target);
+
+  const handleImport = () => {
+    if (errorCount > 0 && !window.confirm(`${errorCount} 行有错误，将被跳过。继续导入其余 ${validRows.length} 行?`)) return;
+    onImport(rows);
+    setRawRows(null);
+    setPasteText('');
+  };
+
+  if (!rawRows) {
+    return (
+      <div className="flex flex-col h-full gap-3">
+        <div className="text-sm text-gray-500 dark:text-slate-400 bg-blue-50 dark:bg-blue-900/20 p-3 rounded border border-blue-100 dark:border-blue-900/30">
+          <span className="font-bold text-blue-600 dark:text-blue-400">表格导入:</span> 从 Excel / WPS 复制粘贴，或上传 CSV / TSV 文件。首行为表头时会自动识别列。
+        </div>
+        <textarea
+          className="flex-1 bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-lg p-4 font-mono text-sm text-gray-800 dark:text-white focus:border-primary outline-none resize-none shadow-inner"
+          placeholder={"昵称\t职业\t绝技\t百家\t备注\t战力\nPlayer1\t碎梦\t红莲\t无\t周末可来\t120000"}
+          value={pasteText}
+          onChange={e => setPasteText(e.target.value)}
+        />
+        <div className="flex gap-3">
+          <button onClick={() => fileInputRef.current?.click()} className="flex-1 bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600 text-gray-700 dark:text-gray-200 px-6 py-3 rounded-md font-bold flex items-center justify-center gap-2">
+            <Upload size={18} /> 上传文件
+          </button>
+          <button onClick={() => loadText(pasteText)} disabled={!pasteText.trim()} className="flex-1 bg-accent hover:bg-accent/90 text-white px-6 py-3 rounded-md font-bold flex items-center justify-center gap-2 shadow-md disabled:opacity-50">
+            <FileSpreadsheet size={18} /> 解析表格
+          </button>
+        </div>
+        <input type="file" ref={fileInputRef} onChange={handleFile} accept=".csv,.tsv,.txt" className="hidden" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full gap-3 min-h-0">
+      <div className="flex items-center gap-4 text-sm">
+        <label className="flex items-center gap-1.5 cursor-pointer text-gray-600 dark:text-slate-300">
+          <input type="checkbox" checked={hasHeader} onChange={e => handleToggleHeader(e.target.checked)} className="accent-primary" />
+          首行为表头
+        </label>
+        <span className="text-gray-500 dark:text-slate-400">
+          共 {rows.length} 行 · 新增 {validRows.filter(r => !r.existingId).length} · 更新 {validRows.filter(r => r.existingId).length}
+          {errorCount > 0 && <span className="text-red-500 font-bold"> · 错误 {errorCount}</span>}
+        </span>
+        <button onClick={() => setRawRows(null)} className="ml-auto text-gray-500 hover:text-gray-800 dark:hover:text-gray-200 flex items-center gap-1">
+          <RotateCcw size={14} /> 重新选择
+        </button>
+      </div>
+
+      {/* Column mapping */}
+      <div className="overflow-x-auto custom-scrollbar border border-gray-200 dark:border-slate-700 rounded-lg">
+        <table className="text-xs">
+          <tbody>
+            {hasHeader && (
+              <tr className="bg-gray-50 dark:bg-slate-900 text-gray-500">
+                {mapping.map((_, col) => <td key={col} className="px-2 py-1 font-bold whitespace-nowrap">{rawRows[0][col] || `列${col + 1}`}</td>)}
+              </tr>
+            )}
+            <tr>
+              {mapping.map((target, col) => (
+                <td key={col} className="px-2 py-1.5">
+                  <select
+                    value={target}
+                    onChange={e => handleMappingChange(col, e.target.value)}
+                    className={`w-28 bg-white dark:bg-slate-800 border rounded px-1 py-1 outline-none focus:border-primary ${target ? 'border-primary/50 text-gray-800 dark:text-gray-100' : 'border-gray-200 dark:border-slate-600 text-gray-400'}`}
+                  >
+                    <option value="">忽略</option>
+                    {MEMBER_COLUMNS.map(c => <option key={c.key} value={c.key}>{c.label}</option>)}
+                    {customNames.map(n => <option key={n} value={`${CUSTOM_PREFIX}${n}`}>自定义: {n}</option>)}
+                    <option value="__new_custom">+ 新自定义字段...</option>
+                  </select>
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {/* Row preview */}
+      <div className="flex-1 min-h-0 overflow-auto custom-scrollbar border border-gray-200 dark:border-slate-700 rounded-lg">
+        <table className="w-full text-xs">
+          <thead className="sticky top-0 bg-gray-50 dark:bg-slate-900 text-gray-500">
+            <tr>
+              <th className="px-2 py-1.5 text-left font-semibold">行</th>
+              <th className="px-2 py-1.5 text-left font-semibold">状态</th>
+              {mappedColumns.map(({ target, col }) => <th key={col} className="px-2 py-1.5 text-left font-semibold whitespace-nowrap">{columnLabel(target)}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(r => {
+              const cells = rawRows[r.line - 1] || [];
+              return (
+                <tr key={r.line} className={`border-t border-gray-100 dark:border-slate-700 ${r.errors.length > 0 ? 'bg-red-50 dark:bg-red-900/20' : ''}`}>
+                  <td className="px-2 py-1 font-mono text-gray-400">{r.line}</td>
+                  <td className="px-2 py-1 whitespace-nowrap">
+                    {r.errors.length > 0 ? (
+                      <span className="text-red-600 dark:text-red-400 font-bold flex items-center gap-1" title={r.errors.join('\n')}>
+                        <AlertTriangle size={12} /> {r.errors.join('；')}
+                      </span>
+                    ) : r.existingId ? (
+                      <span className="text-amber-600 dark:text-amber-400" title={r.warnings.join('\n')}>{r.restoresArchived ? '更新 · 恢复归档' : '更新'}</span>
+                    ) : r.warnings.length > 0 ? (
+                      <span className="text-amber-600 dark:text-amber-400 flex items-center gap-1" title={r.warnings.join('\n')}>
+                        <AlertTriangle size={12} /> 新增 · {r.warnings.join('；')}
+                      </span>
+                    ) : (
+                      <span className="text-emerald-600 dark:text-emerald-400">新增</span>
+                    )}
+                  </td>
+                  {mappedColumns.map(({ col }) => <td key={col} className="px-2 py-1 max-w-[12rem] truncate" title={cells[col]}>{cells[col]}</td>)}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <button onClick={handleImport} disabled={validRows.length === 0} className="bg-accent hover:bg-accent/90 text-white px-6 py-3 rounded-md font-bold flex items-center justify-center gap-2 shadow-md disabled:opacity-50">
+        <Upload size={18} /> 导入 {validRows.length} 行
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AppData } from '../types';
+import { saveData, SaveResult } from '../services/storage';
+
+export type SaveStatus = 'saved' | 'dirty' | 'saving' | SaveResult;
+
+// Debounced persistence for the roster. Any change to `data` schedules a save;
+// nothing is written until a baseline has been set with `markSaved` (initial load).
+export const useAutosave = (data: AppData, onConflict: () => void, delay = 800) => {
+  const [status, setStatus] = useState<SaveStatus>('saved');
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+  const lastSavedRef = useRef<AppData | null>(null);
+  const unsafeRef = useRef(false); // The last save failed or conflicted, and nothing has been saved since
+  const dataRef = useRef(data);
+  dataRef.current = data;
+  const timerRef = useRef<number | undefined>(undefined);
+  const onConflictRef = useRef(onConflict);
+  onConflictRef.current = onConflict;
+
+  const save = useCallback(async (force = false): Promise<SaveResult> => {
+    window.clearTimeout(timerRef.current);
+    const snapshot = dataRef.current;
+    setStatus('saving');
+    const result = await saveData(snapshot, force);
+    if (result === 'saved') lastSavedRef.current = snapshot;
+    unsafeRef.current = result !== 'saved';
+    if (result === 'conflict') onConflictRef.current();
+    // Newer edits already have their own save scheduled
+    if (dataRef.current === snapshot) {
+      setStatus(result);
+      if (result === 'saved') setSavedAt(new Date());
+    }
+    return result;
+  }, []);
+
+  // The value now matches storage (after loading or reloading), so there is nothing to save
+  const markSaved = useCallback((value: AppData) => {
+    window.clearTimeout(timerRef.current);
+    lastSavedRef.current = value;
+    unsafeRef.current = false;
+    setStatus('saved');
+  }, []);
+
+  const isDirty = useCallback(() => !!lastSavedRef.current && dataRef.current !== lastSavedRef.current, []);
+
+  useEffect(() => {
+    if (!lastSavedRef.current || data === lastSavedRef.current) return;
+    setStatus(prev => prev === 'conflict' ? prev : 'dirty');
+    timerRef.current = window.setTimeout(() => save(), delay);
+    return () => window.clearTimeout(timerRef.current);
+  }, [data, delay, save]);
+
+  // Flush a pending save when the page is hidden; warn before leaving if the last save did not go through
+  useEffect(() => {
+    const flush = () => {
+      if (document.visibilityState === 'hidden' && isDirty()) save();
+    };
+    document.addEventListener('visibilitychange', flush);
+    return () => document.removeEventListener('visibilitychange', flush);
+  }, [save, isDirty]);
+
+  // Checked on unload rather than from `status`, which moves on to dirty/saving with the next edit while the retry is pending
+  useEffect(() => {
+    const warn = (e: BeforeUnloadEvent) => {
+      if (!unsafeRef.current || !isDirty()) return;
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [isDirty]);
+
+  return { status, savedAt, save, markSaved, isDirty };
+};
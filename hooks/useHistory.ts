@@ -0,0 +1,63 @@
+
+import { useState, useCallback, SetStateAction } from 'react';
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  lastKey: string | null; // Key of the last recorded change, used to coalesce typing
+}
+
+// State container with a bounded undo/redo stack.
+// Every update that changes the value is recorded; updates sharing a `coalesceKey`
+// with the previous one (e.g. keystrokes in the same input) collapse into one step.
+export const useHistory = <T>(initial: T, limit = 50) => {
+  const [history, setHistory] = useState<HistoryState<T>>({ past: [], present: initial, future: [], lastKey: null });
+
+  const set = useCallback((action: SetStateAction<T>, coalesceKey?: string) => {
+    setHistory(h => {
+      const next = typeof action === 'function' ? (action as (prev: T) => T)(h.present) : action;
+      if (next === h.present) return h;
+
+      if (coalesceKey && coalesceKey === h.lastKey) {
+        return { ...h, present: next, future: [] };
+      }
+      return {
+        past: [...h.past, h.present].slice(-limit),
+        present: next,
+        future: [],
+        lastKey: coalesceKey || null
+      };
+    });
+  }, [limit]);
+
+  // Replaces the value and forgets all history (initial load, external reloads)
+  const reset = useCallback((value: T) => {
+    setHistory({ past: [], present: value, future: [], lastKey: null });
+  }, []);
+
+  // Functional updates, so repeated undo/redo before a re-render each take one step
+  const undo = useCallback(() => {
+    setHistory(h => {
+      if (h.past.length === 0) return h;
+      return { past: h.past.slice(0, -1), present: h.past[h.past.length - 1], future: [h.present, ...h.future], lastKey: null };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => {
+      if (h.future.length === 0) return h;
+      return { past: [...h.past, h.present].slice(-limit), present: h.future[0], future: h.future.slice(1), lastKey: null };
+    });
+  }, [limit]);
+
+  return {
+    state: history.present,
+    set,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  };
+};
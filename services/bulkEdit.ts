@@ -0,0 +1,58 @@
+
+import { Member } from '../types';
+import { mergeTags } from './tags';
+
+// Unset fields are left alone
+export interface BulkEdit {
+  profession?: string;
+  ult?: string;
+  clan?: string;
+  note?: { mode: 'append' | 'clear'; text: string };
+  addTags: string[];
+  removeTags: string[];
+}
+
+export const EMPTY_BULK_EDIT: BulkEdit = { addTags: [], removeTags: [] };
+
+export const isBulkEditEmpty = (edit: BulkEdit) =>
+  !edit.profession && !edit.ult && !edit.clan && !edit.note && edit.addTags.length === 0 && edit.removeTags.length === 0;
+
+export const applyBulkEdit = (member: Member, edit: BulkEdit): Member => {
+  const next: Member = { ...member };
+  if (edit.profession) next.profession = edit.profession;
+  if (edit.ult) next.ult = edit.ult;
+  if (edit.clan) next.clan = edit.clan;
+  if (edit.note?.mode === 'clear') next.note = '';
+  if (edit.note?.mode === 'append' && edit.note.text.trim()) {
+    next.note = [member.note, edit.note.text.trim()].filter(Boolean).join(' ');
+  }
+  if (edit.addTags.length > 0 || edit.removeTags.length > 0) {
+    next.tags = mergeTags(member.tags, edit.addTags).filter(t => !edit.removeTags.includes(t));
+  }
+  return next;
+};
+
+export interface BulkChange {
+  member: Member;
+  fields: { label: string; before: string; after: string }[];
+}
+
+const BULK_FIELDS: { label: string; read: (m: Member) => string }[] = [
+  { label: '职业', read: m => m.profession },
+  { label: '绝技', read: m => m.ult },
+  { label: '百家', read: m => m.clan },
+  { label: '备注', read: m => m.note || '' },
+  { label: '标签', read: m => (m.tags || []).join('、') },
+];
+
+// Per-member field differences, for the preview; members the edit does not change are left out
+export const previewBulkEdit = (members: Member[], edit: BulkEdit): BulkChange[] =>
+  members
+    .map(member => {
+      const updated = applyBulkEdit(member, edit);
+      const fields = BULK_FIELDS
+        .map(({ label, read }) => ({ label, before: read(member), after: read(updated) }))
+        .filter(f => f.before !== f.after);
+      return { member, fields };
+    })
+    .filter(c => c.fields.length > 0);
@@ -0,0 +1,38 @@
+
+import { Member, MemberCharacter } from '../types';
+
+export const getCharacter = (member: Member, characterId: string | undefined): MemberCharacter | undefined =>
+  characterId ? member.characters?.find(c => c.id === characterId) : undefined;
+
+// Every character a member can be deployed as, main first (id undefined)
+export const listCharacters = (member: Member): { id?: string; name: string; profession: string; ult: string; clan: string }[] => [
+  { name: member.name, profession: member.profession, ult: member.ult, clan: member.clan },
+  ...(member.characters || []).map(c => ({ ...c, name: c.name || member.name }))
+];
+
+// Deployed views are cached per member object, so memoized slots keep receiving the same reference
+const deployedCache = new WeakMap<Member, Map<string, Member>>();
+
+// The member as shown on the board when playing `characterId`
+export const deployedAs = (member: Member, characterId: string | undefined): Member => {
+  const character = getCharacter(member, characterId);
+  if (!character) return member;
+  let views = deployedCache.get(member);
+  if (!views) deployedCache.set(member, views = new Map());
+  let view = views.get(character.id);
+  if (!view) {
+    view = { ...member, name: character.name || member.name, profession: character.profession, ult: character.ult, clan: character.clan };
+    views.set(character.id, view);
+  }
+  return view;
+};
+
+// Applies skill edits to whichever character is deployed
+export const updateDeployedSkills = (member: Member, characterId: string | undefined, skills: { ult: string; clan: string }): Member => {
+  if (!getCharacter(member, characterId)) return { ...member, ...skills };
+  return { ...member, characters: member.characters!.map(c => c.id === characterId ? { ...c, ...skills } : c) };
+};
+
+// Professions across all of a member's characters, main first
+export const memberProfessions = (member: Member): string[] =>
+  Array.from(new Set([member.profession, ...(member.characters || []).map(c => c.profession)]));
@@ -0,0 +1,70 @@
+
+// Minimal promise wrapper around a single IndexedDB key-value store
+const DB_NAME = 'nsh_roster';
+const DB_VERSION = 1;
+const STORE_NAME = 'kv';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry on the next call instead of caching the failure
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDB();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = fn(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const idbGet = <T>(key: string): Promise<T | undefined> => {
+  return withStore<T | undefined>('readonly', store => store.get(key));
+};
+
+export const idbSet = (key: string, value: unknown): Promise<void> => {
+  return withStore<void>('readwrite', store => store.put(value, key));
+};
+
+export const idbDelete = (key: string): Promise<void> => {
+  return withStore<void>('readwrite', store => store.delete(key));
+};
+
+// Read-modify-write in a single transaction; the updater returns undefined to leave the value untouched
+export const idbUpdate = async <T>(key: string, updater: (current: T | undefined) => T | undefined): Promise<T | undefined> => {
+  const db = await openDB();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    let result: T | undefined;
+    const getRequest = store.get(key);
+    getRequest.onsuccess = () => {
+      result = updater(getRequest.result as T | undefined);
+      if (result !== undefined) store.put(result, key);
+    };
+    tx.oncomplete = () => resolve(result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
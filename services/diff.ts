@@ -0,0 +1,89 @@
+
+import { AppData, Group } from '../types';
+
+export interface Placement {
+  groupId: string;
+  squadId: string;
+  slotIdx: number;
+  label: string; // e.g. "主力团 / 一队"
+}
+
+export interface MemberMove {
+  memberId: string; // Id in the current data
+  name: string;
+  from?: Placement;
+  to?: Placement;
+}
+
+export interface RosterDiff {
+  added: MemberMove[]; // Placed now, not placed in the base
+  removed: MemberMove[]; // Placed in the base, not placed now
+  moved: MemberMove[]; // Placed in both but in a different group or squad
+  changedSlots: Map<string, string>; // Current slot id -> name of the base occupant ('' if it was empty)
+}
+
+const collectPlacements = (groups: Group[]) => {
+  const placements = new Map<string, Placement>();
+  groups.forEach(g => g.squads.forEach(s => s.slots.forEach((sl, slotIdx) => {
+    if (sl.memberId) placements.set(sl.memberId, { groupId: g.id, squadId: s.id, slotIdx, label: `${g.name} / ${s.name}` });
+  })));
+  return placements;
+};
+
+const matchByIdOrName = <T extends { id: string; name: string }>(list: T[], item: T) =>
+  list.find(x => x.id === item.id) || list.find(x => x.name.trim() === item.name.trim());
+
+// Compares the board of `current` against `base`. Members are matched by id, falling back to
+// name so snapshots from exported files line up; groups and squads likewise by id, then name.
+export const diffRosters = (base: AppData, current: AppData): RosterDiff => {
+  const baseToCurrentId = new Map<string, string>();
+  base.pool.forEach(bm => {
+    const match = matchByIdOrName(current.pool, bm);
+    baseToCurrentId.set(bm.id, match ? match.id : bm.id);
+  });
+  const nameOf = (currentId: string) =>
+    current.pool.find(m => m.id === currentId)?.name
+    || base.pool.find(m => baseToCurrentId.get(m.id) === currentId)?.name
+    || currentId;
+
+  const basePlacements = new Map<string, Placement>();
+  collectPlacements(base.groups).forEach((p, baseId) => basePlacements.set(baseToCurrentId.get(baseId) || baseId, p));
+  const currentPlacements = collectPlacements(current.groups);
+
+  // Same squad when the base group and squad map onto the current ones (by id, then name)
+  const sameSquad = (from: Placement, to: Placement) => {
+    const baseGroup = base.groups.find(g => g.id === from.groupId);
+    const currentGroup = current.groups.find(g => g.id === to.groupId);
+    if (!baseGroup || !currentGroup || matchByIdOrName(current.groups, baseGroup) !== currentGroup) return false;
+    const baseSquad = baseGroup.squads.find(s => s.id === from.squadId);
+    const currentSquad = currentGroup.squads.find(s => s.id === to.squadId);
+    return !!baseSquad && !!currentSquad && matchByIdOrName(currentGroup.squads, baseSquad) === currentSquad;
+  };
+
+  const added: MemberMove[] = [];
+  const moved: MemberMove[] = [];
+  currentPlacements.forEach((to, memberId) => {
+    const from = basePlacements.get(memberId);
+    if (!from) added.push({ memberId, name: nameOf(memberId), to });
+    else if (!sameSquad(from, to)) moved.push({ memberId, name: nameOf(memberId), from, to });
+  });
+  const removed: MemberMove[] = [];
+  basePlacements.forEach((from, memberId) => {
+    if (!currentPlacements.has(memberId)) removed.push({ memberId, name: nameOf(memberId), from });
+  });
+
+  const changedSlots = new Map<string, string>();
+  current.groups.forEach(g => {
+    const baseGroup = matchByIdOrName(base.groups, g);
+    g.squads.forEach(s => {
+      const baseSquad = baseGroup ? matchByIdOrName(baseGroup.squads, s) : undefined;
+      s.slots.forEach((sl, k) => {
+        const baseMemberId = baseSquad?.slots[k]?.memberId;
+        const mappedBaseId = baseMemberId ? baseToCurrentId.get(baseMemberId) || baseMemberId : null;
+        if (mappedBaseId !== sl.memberId) changedSlots.set(sl.id, mappedBaseId ? nameOf(mappedBaseId) : '');
+      });
+    });
+  });
+
+  return { added, removed, moved, changedSlots };
+};
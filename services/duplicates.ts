@@ -0,0 +1,76 @@
+
+import { Member, MemberCharacter, MEMBER_STATS } from '../types';
+import { mergeTags } from './tags';
+
+// NFKC folds full-width letters, digits and spaces into their half-width forms
+export const normalizeMemberName = (name: string) => name.normalize('NFKC').replace(/\s+/g, '').toLowerCase();
+
+const editDistance = (a: string, b: string) => {
+  const prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diag = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const up = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diag + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diag = up;
+    }
+  }
+  return prev[b.length];
+};
+
+export interface DuplicateMatch {
+  member: Member;
+  exact: boolean; // Same name after normalization
+}
+
+// Likely the same player: identical once normalized, or one typo apart in a name of 3+ characters.
+// Two-character names differ by one character far too often to flag.
+export const isLikelyDuplicate = (a: string, b: string) => {
+  const na = normalizeMemberName(a), nb = normalizeMemberName(b);
+  if (na === nb) return true;
+  if (Math.min(na.length, nb.length) < 3) return false;
+  return editDistance(na, nb) <= (Math.max(na.length, nb.length) >= 8 ? 2 : 1);
+};
+
+export const findDuplicate = (pool: Member[], name: string, excludeId?: string): DuplicateMatch | undefined => {
+  const normalized = normalizeMemberName(name);
+  const candidates = pool.filter(m => m.id !== excludeId);
+  const exact = candidates.find(m => normalizeMemberName(m.name) === normalized);
+  if (exact) return { member: exact, exact: true };
+  const similar = candidates.find(m => isLikelyDuplicate(m.name, name));
+  return similar && { member: similar, exact: false };
+};
+
+// Pairs of pool members that look like the same player, for the duplicate review
+export const findDuplicatePairs = (pool: Member[]): [Member, Member][] => {
+  const pairs: [Member, Member][] = [];
+  for (let i = 0; i < pool.length; i++) {
+    for (let j = i + 1; j < pool.length; j++) {
+      if (isLikelyDuplicate(pool[i].name, pool[j].name)) pairs.push([pool[i], pool[j]]);
+    }
+  }
+  return pairs;
+};
+
+// The survivor keeps its id, name, archived state and filled-in fields; gaps are filled from the duplicate.
+// The earlier join date is kept, and no date at all counts as earliest.
+export const mergeMemberRecords = (survivor: Member, duplicate: Member): Member => ({
+  ...duplicate,
+  ...Object.fromEntries(Object.entries(survivor).filter(([, v]) => v !== undefined && v !== '')),
+  tags: survivor.tags || duplicate.tags ? mergeTags(survivor.tags, duplicate.tags || []) : undefined,
+  attendance: survivor.attendance || duplicate.attendance ? { ...duplicate.attendance, ...survivor.attendance } : undefined,
+  custom: survivor.custom || duplicate.custom ? { ...duplicate.custom, ...survivor.custom } : undefined,
+  characters: survivor.characters || duplicate.characters ? [...(survivor.characters || []), ...(duplicate.characters || [])] : undefined,
+  archived: survivor.archived,
+  joinedAt: survivor.joinedAt && duplicate.joinedAt ? [survivor.joinedAt, duplicate.joinedAt].sort()[0] : undefined
+} as Member);
+
+// A separately entered alt folded into its owner: the alt's main becomes one more character and both notes are kept.
+// Power, level and gear describe the alt's character, so they don't fill in the owner's.
+export const attachAltRecord = (owner: Member, alt: Member, characterId: string): Member => {
+  const character: MemberCharacter = { id: characterId, name: alt.name, profession: alt.profession, ult: alt.ult, clan: alt.clan };
+  const withoutStats = Object.fromEntries(Object.entries(alt).filter(([key]) => !MEMBER_STATS.some(s => s.key === key))) as Member;
+  const merged = mergeMemberRecords(owner, { ...withoutStats, characters: [character, ...(alt.characters || [])] });
+  return owner.note && alt.note && owner.note !== alt.note ? { ...merged, note: `${owner.note} ${alt.note}` } : merged;
+};
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { AppData, ArchivedEvent, Member } from '../types';
+import { computeHistoryStats, stampJoinDates } from './history';
+
+const member = (id: string, extra: Partial<Member> = {}): Member => ({ id, name: id.toUpperCase(), profession: '碎梦', ult: '无', clan: '无', ...extra });
+
+const event = (date: string, played: string[], benched: string[] = []): ArchivedEvent => ({ id: `e-${date}`, name: date, date, played, benched });
+
+// Three events; only a ever plays
+const state = (pool: Member[]): AppData => ({
+  pool,
+  groups: [],
+  history: [event('2026-03-01', ['a']), event('2026-03-08', ['a']), event('2026-03-15', ['a'])]
+});
+
+describe('computeHistoryStats', () => {
+  it('counts every event since joining for a member who was never fielded', () => {
+    const stats = computeHistoryStats(state([member('a'), member('b', { joinedAt: '2026-02-20' })]));
+    expect(stats.get('b')).toEqual({ played: 0, benched: 0, benchStreak: 3, lastPlayed: null });
+  });
+
+  it('skips events before the join date', () => {
+    const stats = computeHistoryStats(state([member('a'), member('b', { joinedAt: '2026-03-08' }), member('c', { joinedAt: '2026-04-01' })]));
+    expect(stats.get('b')!.benchStreak).toBe(2);
+    expect(stats.get('c')!.benchStreak).toBe(0);
+  });
+
+  it('counts every event for members without a join date', () => {
+    expect(computeHistoryStats(state([member('a'), member('b')])).get('b')!.benchStreak).toBe(3);
+  });
+
+  it('starts at an appearance that predates the join date', () => {
+    const data = state([member('a'), member('b', { joinedAt: '2026-03-15' })]);
+    data.history![0] = event('2026-03-01', ['a'], ['b']);
+    expect(computeHistoryStats(data).get('b')).toMatchObject({ benched: 1, benchStreak: 3 });
+  });
+});
+
+describe('stampJoinDates', () => {
+  it('dates only members new to the pool', () => {
+    const previous = [member('a')];
+    const pool = stampJoinDates([member('a'), member('b'), member('c', { joinedAt: '2026-01-01' })], previous, '2026-05-01');
+    expect(pool.map(m => m.joinedAt)).toEqual([undefined, '2026-05-01', '2026-01-01']);
+  });
+});
@@ -0,0 +1,78 @@
+
+import { AppData, ArchivedEvent, Member } from '../types';
+import { generateId } from './storage';
+import { collectBenchIds } from './roster';
+import { getActivePlan } from './plans';
+
+export interface MemberHistoryStats {
+  played: number;
+  benched: number;
+  benchStreak: number; // Most recent events in a row the member did not play in (benched or left out) since joining
+  lastPlayed: string | null; // Date of the last event the member played in
+}
+
+export const todayString = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+// Oldest first; events on the same day keep their archive order
+const sortEvents = (events: ArchivedEvent[]) =>
+  events.map((e, i) => ({ e, i })).sort((a, b) => a.e.date.localeCompare(b.e.date) || a.i - b.i).map(({ e }) => e);
+
+// Records who is on the active board right now as a finished event
+export const archiveActivePlan = (data: AppData, name: string, date: string): AppData => {
+  const played = new Set<string>();
+  data.groups.forEach(g => g.squads.forEach(s => s.slots.forEach(sl => {
+    if (sl.memberId) played.add(sl.memberId);
+  })));
+  const event: ArchivedEvent = {
+    id: generateId(),
+    name,
+    date,
+    planId: getActivePlan(data)?.id,
+    played: Array.from(played),
+    benched: Array.from(collectBenchIds(data.groups))
+  };
+  return { ...data, history: sortEvents([...(data.history || []), event]) };
+};
+
+export const deleteArchivedEvent = (data: AppData, eventId: string): AppData => ({
+  ...data,
+  history: (data.history || []).filter(e => e.id !== eventId)
+});
+
+// Members new to the pool are stamped with today's date, so older events don't count against them
+export const stampJoinDates = (pool: Member[], previous: Member[], date = todayString()): Member[] => {
+  const known = new Set(previous.map(m => m.id));
+  return pool.map(m => m.joinedAt || known.has(m.id) ? m : { ...m, joinedAt: date });
+};
+
+export const computeHistoryStats = (data: AppData): Map<string, MemberHistoryStats> => {
+  const events = sortEvents(data.history || []);
+  const stats = new Map<string, MemberHistoryStats>();
+  data.pool.forEach(m => stats.set(m.id, { played: 0, benched: 0, benchStreak: 0, lastPlayed: null }));
+
+  // Events before a member joined don't count as waiting. Members without a join date have been around for all of them;
+  // an earlier appearance wins over the join date, e.g. after a re-import.
+  const since = new Map(data.pool.map(m => [m.id, m.joinedAt || '']));
+  events.forEach(e => {
+    const played = new Set(e.played);
+    const benched = new Set(e.benched);
+    stats.forEach((s, id) => {
+      if (played.has(id)) {
+        since.set(id, '');
+        s.played++;
+        s.benchStreak = 0;
+        s.lastPlayed = e.date;
+      } else if (benched.has(id)) {
+        since.set(id, '');
+        s.benched++;
+        s.benchStreak++;
+      } else if (e.date >= since.get(id)!) {
+        s.benchStreak++;
+      }
+    });
+  });
+  return stats;
+};
@@ -0,0 +1,82 @@
+
+import { Member, AttendanceStatus, ATTENDANCE_STATUSES } from '../types';
+import { getAttendance } from './plans';
+import { listCharacters } from './characters';
+
+// Sidebar filter; every set condition must hold
+export interface MemberFilter {
+  profession: string | null;
+  ults: string[]; // Any of these
+  clans: string[]; // Any of these
+  status: AttendanceStatus | null;
+  tags: string[]; // Every one of these
+  note: string; // Text contained in the note
+  custom: Record<string, string>; // Attribute -> text contained in its value
+}
+
+export interface FilterPreset {
+  id: string;
+  name: string; // e.g. 有金钟罩的铁衣
+  filter: MemberFilter;
+}
+
+export const EMPTY_FILTER: MemberFilter = { profession: null, ults: [], clans: [], status: null, tags: [], note: '', custom: {} };
+
+const containsText = (value: string | undefined, term: string) => (value || '').toLowerCase().includes(term.trim().toLowerCase());
+
+// Profession and skills are checked per character, so a 铁衣 alt doesn't borrow the main's 金钟罩
+export const matchesMemberFilter = (member: Member, filter: MemberFilter, planId?: string) => {
+  const hasCharacter = listCharacters(member).some(c =>
+    (!filter.profession || c.profession === filter.profession) &&
+    (filter.ults.length === 0 || filter.ults.includes(c.ult)) &&
+    (filter.clans.length === 0 || filter.clans.includes(c.clan))
+  );
+  if (!hasCharacter) return false;
+  if (filter.status && getAttendance(member, planId) !== filter.status) return false;
+  if (!filter.tags.every(t => member.tags?.includes(t))) return false;
+  if (filter.note.trim() && !containsText(member.note, filter.note)) return false;
+  return Object.entries(filter.custom).every(([key, term]) => !term.trim() || containsText(member.custom?.[key], term));
+};
+
+// Conditions set in the advanced panel, i.e. beyond the profession/status/tag chips
+export const countAdvancedConditions = (filter: MemberFilter) =>
+  filter.ults.length + filter.clans.length + (filter.note.trim() ? 1 : 0) + Object.values(filter.custom).filter(v => v.trim()).length;
+
+export const isFilterEmpty = (filter: MemberFilter) =>
+  !filter.profession && !filter.status && filter.tags.length === 0 && countAdvancedConditions(filter) === 0;
+
+// Drops blank text conditions so saved presets stay small
+export const compactFilter = (filter: MemberFilter): MemberFilter => ({
+  ...filter,
+  note: filter.note.trim(),
+  custom: Object.fromEntries(Object.entries(filter.custom).map(([k, v]) => [k, v.trim()]).filter(([, v]) => v)),
+});
+
+export const describeFilter = (filter: MemberFilter) => [
+  filter.profession,
+  filter.ults.length > 0 && `绝技: ${filter.ults.join('/')}`,
+  filter.clans.length > 0 && `百家: ${filter.clans.join('/')}`,
+  filter.status && ATTENDANCE_STATUSES.find(s => s.key === filter.status)?.label,
+  ...filter.tags.map(t => `#${t}`),
+  filter.note.trim() && `备注含「${filter.note.trim()}」`,
+  ...Object.entries(filter.custom).filter(([, v]) => v.trim()).map(([k, v]) => `${k}含「${v.trim()}」`),
+].filter(Boolean).join(' · ');
+
+// Presets are a per-browser preference, stored next to the view settings
+const PRESETS_KEY = 'nsh_roster_filter_presets';
+
+export const loadFilterPresets = (): FilterPreset[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PRESETS_KEY) || '[]');
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter(p => p && typeof p.id === 'string' && typeof p.name === 'string' && p.filter && typeof p.filter === 'object')
+      .map(p => ({ id: p.id, name: p.name, filter: { ...EMPTY_FILTER, ...p.filter } }));
+  } catch (e) {
+    return [];
+  }
+};
+
+export const saveFilterPresets = (presets: FilterPreset[]) => {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+};
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { AppData, Member } from '../types';
+import { applyMergePreview, computeMergePreview } from './merge';
+
+const member = (id: string, extra: Partial<Member> = {}): Member => ({ id, name: id.toUpperCase(), profession: '碎梦', ult: '无', clan: '无', ...extra });
+
+// One squad of two slots; a plays their 铁衣 alt
+const state = (pool: Member[]): AppData => {
+  const groups = [{ id: 'g1', name: 'G1', squads: [{ id: 's1', name: 'S1', slots: [{ id: 's1-0', memberId: 'a', characterId: 'local-alt' }, { id: 's1-1', memberId: null }] }] }];
+  return { pool, groups, plans: [{ id: 'p1', name: 'P1', groups }], activePlanId: 'p1' };
+};
+
+const applyAll = (current: AppData, incoming: AppData) => {
+  const preview = computeMergePreview(current, incoming);
+  return applyMergePreview(current, incoming, preview, new Set([...preview.memberChanges, ...preview.slotChanges].map(c => c.key)));
+};
+
+describe('applyMergePreview', () => {
+  it('keeps local alt ids when accepting changed characters, so deployed alts stay deployed', () => {
+    const current = state([member('a', { characters: [{ id: 'local-alt', profession: '铁衣', ult: '无', clan: '无' }] })]);
+    const incoming = state([member('a', {
+      characters: [{ id: 'other-alt', profession: '铁衣', ult: '金钟罩', clan: '无' }, { id: 'new-alt', profession: '素问', ult: '无', clan: '无' }]
+    })]);
+    const result = applyAll(current, incoming);
+    expect(result.pool[0].characters!.map(c => c.id)).toEqual(['local-alt', 'new-alt']);
+    expect(result.pool[0].characters![0].ult).toBe('金钟罩');
+    expect(result.groups[0].squads[0].slots[0].characterId).toBe('local-alt');
+    expect(result.plans![0].groups[0].squads[0].slots[0].characterId).toBe('local-alt');
+  });
+
+  it('drops the character choice when the alt is gone from the incoming file', () => {
+    const current = state([member('a', { characters: [{ id: 'local-alt', profession: '铁衣', ult: '无', clan: '无' }] })]);
+    const incoming = state([member('a', { characters: [{ id: 'other-alt', profession: '素问', ult: '无', clan: '无' }] })]);
+    expect(applyAll(current, incoming).groups[0].squads[0].slots[0].characterId).toBeUndefined();
+  });
+});
@@ -0,0 +1,177 @@
+
+import { AppData, Group, Member, MemberCharacter } from '../types';
+import { generateId } from './storage';
+import { pruneBenches, rosterReducer } from './roster';
+import { normalizeMemberName } from './duplicates';
+import { stampJoinDates } from './history';
+
+// Attendance is not merged: it is keyed by plan ids, which differ between files
+export const MERGE_MEMBER_FIELDS = ['profession', 'ult', 'clan', 'note', 'power', 'level', 'gear', 'tags', 'characters', 'custom', 'archived'] as const;
+export type MergeField = typeof MERGE_MEMBER_FIELDS[number];
+
+export interface MemberChange {
+  key: string;
+  kind: 'added' | 'changed' | 'removed';
+  current?: Member;
+  incoming?: Member; // Already carries the local id for matched members
+  fields: MergeField[]; // Fields that differ, only for 'changed'
+}
+
+export interface SlotChange {
+  key: string;
+  slotId: string; // Local slot id
+  label: string; // e.g. "主力团 / 一队 #3"
+  currentMemberId: string | null;
+  incomingMemberId: string | null; // Mapped to local member ids
+}
+
+export interface MergePreview {
+  memberChanges: MemberChange[];
+  slotChanges: SlotChange[];
+  incomingPool: Member[]; // Incoming members with ids mapped onto the local pool
+  skippedSlots: number; // Incoming slots whose group/squad does not exist locally
+}
+
+const normalizeName = (name: string) => name.trim();
+
+// Readable form of a field, also used to detect differences; alt ids are left out since each file generates its own
+export const formatMemberField = (m: Member, f: MergeField): string => {
+  switch (f) {
+    case 'tags': return (m.tags || []).join(', ');
+    case 'characters': return (m.characters || []).map(c => `${c.name ? `${c.name} ` : ''}${c.profession}/${c.ult}/${c.clan}`).join(', ');
+    case 'custom': return Object.entries(m.custom || {}).sort(([a], [b]) => a.localeCompare(b)).map(([k, v]) => `${k}=${v}`).join(', ');
+    case 'archived': return m.archived ? '已归档' : '';
+    default: return String(m[f] ?? '');
+  }
+};
+
+// Incoming alts take the id of the local alt with the same id, or else the same name and profession,
+// so slots deployed as an alt still point at it once the merged characters replace the local ones
+const mapCharacterIds = (local: MemberCharacter[] = [], incoming?: MemberCharacter[]): MemberCharacter[] | undefined => {
+  const used = new Set<string>();
+  const sameAlt = (a: MemberCharacter, b: MemberCharacter) => normalizeName(a.name || '') === normalizeName(b.name || '') && a.profession === b.profession;
+  return incoming?.map(c => {
+    const match = local.find(x => x.id === c.id && !used.has(x.id)) || local.find(x => !used.has(x.id) && sameAlt(x, c));
+    if (!match) return c;
+    used.add(match.id);
+    return match.id === c.id ? c : { ...c, id: match.id };
+  });
+};
+
+const findByIdOrName = <T extends { id: string; name: string }>(list: T[], item: T): T | undefined => {
+  return list.find(x => x.id === item.id) || list.find(x => normalizeName(x.name) === normalizeName(item.name));
+};
+
+// Compares the incoming file against the current data.
+// Members are matched by id, then by name; slots by group/squad (id, then name) and position.
+export const computeMergePreview = (current: AppData, incoming: AppData): MergePreview => {
+  const currentIds = new Set(current.pool.map(m => m.id));
+  const idMap = new Map<string, string>(); // incoming id -> local id
+  const memberChanges: MemberChange[] = [];
+  const matchedLocalIds = new Set<string>();
+
+  const incomingPool = incoming.pool.map(m => {
+    const match = current.pool.find(x => x.id === m.id && !matchedLocalIds.has(x.id))
+      || current.pool.find(x => normalizeMemberName(x.name) === normalizeMemberName(m.name) && !matchedLocalIds.has(x.id));
+    if (match) {
+      matchedLocalIds.add(match.id);
+      idMap.set(m.id, match.id);
+      const mapped = { ...m, id: match.id, name: match.name, characters: mapCharacterIds(match.characters, m.characters) };
+      const fields = MERGE_MEMBER_FIELDS.filter(f => formatMemberField(match, f) !== formatMemberField(m, f));
+      if (fields.length > 0) {
+        memberChanges.push({ key: `m:${match.id}`, kind: 'changed', current: match, incoming: mapped, fields });
+      }
+      return mapped;
+    }
+    // New member; keep its id unless it collides with an unrelated local member
+    const id = currentIds.has(m.id) ? generateId() : m.id;
+    idMap.set(m.id, id);
+    const added = { ...m, id };
+    memberChanges.push({ key: `m:${id}`, kind: 'added', incoming: added, fields: [] });
+    return added;
+  });
+
+  current.pool.forEach(m => {
+    if (!matchedLocalIds.has(m.id)) {
+      memberChanges.push({ key: `m:${m.id}`, kind: 'removed', current: m, fields: [] });
+    }
+  });
+
+  const slotChanges: SlotChange[] = [];
+  let skippedSlots = 0;
+  incoming.groups.forEach((ig: Group) => {
+    const localGroup = findByIdOrName(current.groups, ig);
+    ig.squads.forEach(isq => {
+      const localSquad = localGroup ? findByIdOrName(localGroup.squads, isq) : undefined;
+      isq.slots.forEach((islot, k) => {
+        const localSlot = localSquad?.slots[k];
+        if (!localGroup || !localSquad || !localSlot) {
+          if (islot.memberId) skippedSlots++;
+          return;
+        }
+        const incomingMemberId = islot.memberId ? idMap.get(islot.memberId) || null : null;
+        if (incomingMemberId !== localSlot.memberId) {
+          slotChanges.push({
+            key: `s:${localSlot.id}`,
+            slotId: localSlot.id,
+            label: `${localGroup.name} / ${localSquad.name} #${k + 1}`,
+            currentMemberId: localSlot.memberId,
+            incomingMemberId
+          });
+        }
+      });
+    });
+  });
+
+  return { memberChanges, slotChanges, incomingPool, skippedSlots };
+};
+
+// Applies only the accepted changes, and for changed members only the fields that differ.
+// Slot changes pointing at a member that ends up outside the pool or archived are dropped,
+// and a member placed by a slot change is cleared from any other slot so nobody occupies two positions.
+// The result goes through the reducer's setPool pruning, which covers every plan.
+export const applyMergePreview = (current: AppData, incoming: AppData, preview: MergePreview, accepted: Set<string>): AppData => {
+  let pool = [...current.pool];
+  preview.memberChanges.filter(c => accepted.has(c.key)).forEach(c => {
+    if (c.kind === 'added' && c.incoming) pool.push(c.incoming);
+    if (c.kind === 'changed' && c.incoming) {
+      const updates = Object.fromEntries(c.fields.map(f => [f, c.incoming![f]]));
+      pool = pool.map(m => m.id === c.incoming!.id ? { ...m, ...updates } : m);
+    }
+    if (c.kind === 'removed' && c.current) pool = pool.filter(m => m.id !== c.current!.id);
+  });
+  const deployable = new Set(pool.filter(m => !m.archived).map(m => m.id));
+
+  const slotTargets = new Map<string, string | null>();
+  preview.slotChanges.filter(c => accepted.has(c.key)).forEach(c => {
+    if (c.incomingMemberId === null || deployable.has(c.incomingMemberId)) slotTargets.set(c.slotId, c.incomingMemberId);
+  });
+  const placedIds = new Set(Array.from(slotTargets.values()).filter((id): id is string => !!id));
+
+  const slotGroups = current.groups.map(g => ({
+    ...g,
+    squads: g.squads.map(s => ({
+      ...s,
+      slots: s.slots.map(sl => {
+        let memberId = slotTargets.has(sl.id) ? slotTargets.get(sl.id)! : sl.memberId;
+        if (!slotTargets.has(sl.id) && memberId && placedIds.has(memberId)) memberId = null;
+        if (memberId === sl.memberId) return sl;
+        // A new occupant plays their main character
+        const { characterId: _, ...rest } = sl;
+        return { ...rest, memberId };
+      })
+    }))
+  }));
+
+  // Members just placed in a slot come off the bench
+  const groups = pruneBenches(slotGroups, id => !placedIds.has(id));
+
+  // Skills used by incoming members are added to the config, never removed
+  const gameConfig = current.gameConfig && incoming.gameConfig ? {
+    ...current.gameConfig,
+    ultSkills: Array.from(new Set([...current.gameConfig.ultSkills, ...incoming.gameConfig.ultSkills])),
+    clanSkills: Array.from(new Set([...current.gameConfig.clanSkills, ...incoming.gameConfig.clanSkills]))
+  } : current.gameConfig;
+
+  return rosterReducer({ ...current, groups, gameConfig }, { type: 'setPool', pool: stampJoinDates(pool, current.pool) });
+};
@@ -0,0 +1,107 @@
+
+import { AppData, THEME_CONFIG, GROUP_COLORS, DEFAULT_ULT_SKILLS, DEFAULT_CLAN_SKILLS } from '../types';
+import { isObject } from './validation';
+
+// Bump together with a new entry in MIGRATIONS whenever stored data has to be rewritten
+// (a field renamed, moved or made required). New optional fields such as tags, attendance,
+// characters, custom or archived read fine from older saves and need no bump.
+export const CURRENT_SCHEMA_VERSION = 3;
+
+type RawRecord = Record<string, unknown>;
+
+interface Migration {
+  version: number; // Version the data has after this migration ran
+  description: string;
+  migrate: (data: RawRecord) => RawRecord;
+}
+
+const DEFAULT_STRATEGY = '综合';
+const DEFAULT_GROUP_COLOR = THEME_CONFIG["进攻(红)"].border;
+
+// Stored data is only checked on import, so lists are read defensively
+const records = (value: unknown): RawRecord[] => Array.isArray(value) ? value.filter(isObject) : [];
+
+// Groups live both on the active board and inside every stored plan
+const mapAllGroups = (data: RawRecord, fn: (group: RawRecord) => RawRecord): RawRecord => ({
+  ...data,
+  groups: records(data.groups).map(fn),
+  plans: Array.isArray(data.plans) ? records(data.plans).map(p => ({ ...p, groups: records(p.groups).map(fn) })) : data.plans
+});
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "gameConfig is required; rebuild it from the skills used in the pool",
+    migrate: (data) => {
+      if (data.gameConfig) return data;
+      const ults = new Set(DEFAULT_ULT_SKILLS);
+      const clans = new Set(DEFAULT_CLAN_SKILLS);
+      records(data.pool).forEach(m => {
+        if (typeof m.ult === 'string' && m.ult && m.ult !== '无') ults.add(m.ult);
+        if (typeof m.clan === 'string' && m.clan && m.clan !== '无') clans.add(m.clan);
+      });
+      return { ...data, gameConfig: { ultSkills: Array.from(ults), clanSkills: Array.from(clans) } };
+    }
+  },
+  {
+    version: 2,
+    description: "Group.theme becomes color + strategy, Slot.note is folded into the member's note",
+    migrate: (data) => {
+      const notesByMember = new Map<string, string[]>();
+      const collectNotes = (group: RawRecord) => records(group.squads).forEach(s => records(s.slots).forEach(sl => {
+        const note = typeof sl.note === 'string' ? sl.note.trim() : '';
+        if (!note || typeof sl.memberId !== 'string' || !sl.memberId) return;
+        const notes = notesByMember.get(sl.memberId) || [];
+        if (!notes.includes(note)) notes.push(note);
+        notesByMember.set(sl.memberId, notes);
+      }));
+      records(data.groups).forEach(collectNotes);
+      records(data.plans).forEach(p => records(p.groups).forEach(collectNotes));
+
+      const pool = records(data.pool).map(m => {
+        const note = typeof m.note === 'string' ? m.note : '';
+        const slotNotes = (notesByMember.get(String(m.id)) || []).filter(n => !note.includes(n));
+        if (slotNotes.length === 0) return m;
+        return { ...m, note: [note, ...slotNotes].filter(Boolean).join(' ') };
+      });
+
+      return mapAllGroups({ ...data, pool }, group => {
+        const { theme: rawTheme, ...rest } = group;
+        const theme = typeof rawTheme === 'string' ? rawTheme : '';
+        const legacy = theme ? THEME_CONFIG[theme] : undefined;
+        return {
+          ...rest,
+          color: rest.color || legacy?.border || GROUP_COLORS.find(c => theme.includes(c.label))?.value || DEFAULT_GROUP_COLOR,
+          strategy: rest.strategy || legacy?.label || (theme ? theme.split('(')[0] : DEFAULT_STRATEGY),
+          squads: records(rest.squads).map(s => ({
+            ...s,
+            slots: records(s.slots).map(({ note, ...slot }) => slot)
+          }))
+        };
+      });
+    }
+  },
+  {
+    version: 3,
+    description: "Introduce the plan library, seeded with the current board",
+    migrate: (data) => {
+      if (Array.isArray(data.plans) && data.plans.length > 0) return data;
+      return { ...data, plans: [{ id: 'p1', name: '默认方案', groups: data.groups }], activePlanId: 'p1' };
+    }
+  }
+];
+
+// Upgrades any stored or imported roster to the current shape.
+// Data without a schemaVersion is treated as version 0.
+export const migrateData = (raw: unknown): AppData => {
+  if (!isObject(raw)) throw new Error("Roster data is not an object");
+  let data: RawRecord = raw;
+  const fromVersion = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+
+  MIGRATIONS
+    .filter(m => m.version > fromVersion)
+    .forEach(m => { data = m.migrate(data); });
+
+  // Imports are validated and saves were written by the app, so after the migrations the record is AppData
+  return { ...data, schemaVersion: Math.max(fromVersion, CURRENT_SCHEMA_VERSION) } as AppData;
+};
@@ -0,0 +1,82 @@
+
+import { AppData, Group, RosterPlan, Member, AttendanceStatus } from '../types';
+import { generateId } from './storage';
+
+export const DEFAULT_PLAN_NAME = '默认方案';
+
+const cloneGroups = (groups: Group[]): Group[] => JSON.parse(JSON.stringify(groups));
+
+// Same groups and squads as the source, but with fresh ids and no members assigned or benched
+const cloneStructure = (groups: Group[]): Group[] => groups.map(({ bench, ...g }) => ({
+  ...g,
+  id: generateId(),
+  squads: g.squads.map(({ bench: squadBench, ...s }) => ({
+    ...s,
+    id: generateId(),
+    slots: s.slots.map(() => ({ id: generateId(), memberId: null }))
+  }))
+}));
+
+// Ensures the plan library exists and writes the board in `groups` back into the active plan
+export const syncActivePlan = (data: AppData): AppData => {
+  const plans: RosterPlan[] = data.plans && data.plans.length > 0
+    ? data.plans
+    : [{ id: generateId(), name: DEFAULT_PLAN_NAME, groups: data.groups }];
+  const activePlanId = plans.some(p => p.id === data.activePlanId) ? data.activePlanId! : plans[0].id;
+
+  return {
+    ...data,
+    activePlanId,
+    plans: plans.map(p => p.id === activePlanId ? { ...p, groups: data.groups } : p)
+  };
+};
+
+export const getActivePlan = (data: AppData): RosterPlan | undefined => {
+  return data.plans?.find(p => p.id === data.activePlanId);
+};
+
+export const getAttendance = (member: Member, planId: string | undefined): AttendanceStatus => {
+  return (planId && member.attendance?.[planId]) || 'none';
+};
+
+export const switchPlan = (data: AppData, planId: string): AppData => {
+  const synced = syncActivePlan(data);
+  const target = synced.plans!.find(p => p.id === planId);
+  if (!target) return synced;
+  return { ...synced, activePlanId: target.id, groups: target.groups };
+};
+
+export const createPlan = (data: AppData, name: string): AppData => {
+  const synced = syncActivePlan(data);
+  const plan: RosterPlan = { id: generateId(), name, groups: cloneStructure(synced.groups) };
+  return { ...synced, plans: [...synced.plans!, plan], activePlanId: plan.id, groups: plan.groups };
+};
+
+export const duplicatePlan = (data: AppData, planId: string, name: string): AppData => {
+  const synced = syncActivePlan(data);
+  const source = synced.plans!.find(p => p.id === planId);
+  if (!source) return synced;
+  // Ids are kept so the copy can be compared slot by slot with its source
+  const plan: RosterPlan = { id: generateId(), name, groups: cloneGroups(source.groups) };
+  return { ...synced, plans: [...synced.plans!, plan], activePlanId: plan.id, groups: plan.groups };
+};
+
+export const renamePlan = (data: AppData, planId: string, name: string): AppData => {
+  const synced = syncActivePlan(data);
+  return { ...synced, plans: synced.plans!.map(p => p.id === planId ? { ...p, name } : p) };
+};
+
+export const deletePlan = (data: AppData, planId: string): AppData => {
+  const synced = syncActivePlan(data);
+  const remaining = synced.plans!.filter(p => p.id !== planId);
+  if (remaining.length === 0) return synced; // Always keep at least one plan
+
+  // Sign-ups for the deleted plan go with it
+  const pool = synced.pool.map(m => {
+    if (!m.attendance || !(planId in m.attendance)) return m;
+    const { [planId]: _, ...attendance } = m.attendance;
+    return { ...m, attendance };
+  });
+  if (synced.activePlanId !== planId) return { ...synced, pool, plans: remaining };
+  return { ...synced, pool, plans: remaining, activePlanId: remaining[0].id, groups: remaining[0].groups };
+};
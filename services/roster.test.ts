@@ -0,0 +1,253 @@
+import { describe, it, expect } from 'vitest';
+import { AppData, Group, Member } from '../types';
+import { rosterReducer, RosterAction } from './roster';
+
+const member = (id: string, extra: Partial<Member> = {}): Member => ({ id, name: id.toUpperCase(), profession: '碎梦', ult: '无', clan: '无', ...extra });
+
+// Two groups: g1 has squads s1 (3 slots) and s2 (2 slots), g2 has squad s3 (2 slots)
+const board = (slots: Record<string, (string | null)[]> = {}, benches: Record<string, string[]> = {}): Group[] => {
+  const squad = (id: string, size: number) => ({
+    id,
+    name: id,
+    slots: Array.from({ length: size }, (_, i) => ({ id: `${id}-${i}`, memberId: slots[id]?.[i] ?? null })),
+    bench: benches[id]
+  });
+  return [
+    { id: 'g1', name: 'G1', squads: [squad('s1', 3), squad('s2', 2)], bench: benches.g1 },
+    { id: 'g2', name: 'G2', squads: [squad('s3', 2)], bench: benches.g2 }
+  ];
+};
+
+const state = (groups: Group[], pool: Member[] = ['a', 'b', 'c', 'd'].map(id => member(id)), extra: Partial<AppData> = {}): AppData => ({
+  pool,
+  groups,
+  plans: [{ id: 'p1', name: 'P1', groups }],
+  activePlanId: 'p1',
+  ...extra
+});
+
+const slotIds = (groups: Group[]) => groups.flatMap(g => g.squads.flatMap(s => s.slots.map(sl => sl.memberId)));
+
+// Every member id in a slot or on a bench, with repeats
+const placements = (groups: Group[]) => groups.flatMap(g => [
+  ...(g.bench || []),
+  ...g.squads.flatMap(s => [...s.slots.map(sl => sl.memberId).filter((id): id is string => !!id), ...(s.bench || [])])
+]);
+
+describe('rosterReducer', () => {
+  describe('assign', () => {
+    it('places a member and moves them out of their previous slot', () => {
+      const next = rosterReducer(state(board({ s1: ['a'] })), { type: 'assign', memberId: 'a', to: { gIdx: 1, sIdx: 0, slotIdx: 1 } });
+      expect(slotIds(next.groups)).toEqual([null, null, null, null, null, null, 'a']);
+    });
+
+    it('replaces the occupant and takes the member off any bench', () => {
+      const next = rosterReducer(state(board({ s1: ['a'] }, { g1: ['b'] })), { type: 'assign', memberId: 'b', to: { gIdx: 0, sIdx: 0, slotIdx: 0 } });
+      expect(next.groups[0].squads[0].slots[0].memberId).toBe('b');
+      expect(next.groups[0].bench).toEqual([]);
+      expect(placements(next.groups)).not.toContain('a');
+    });
+
+    it('keeps untouched groups and squads by reference', () => {
+      const before = state(board({ s1: ['a'] }));
+      const next = rosterReducer(before, { type: 'assign', memberId: 'b', to: { gIdx: 0, sIdx: 1, slotIdx: 0 } });
+      expect(next.groups[1]).toBe(before.groups[1]);
+      expect(next.groups[0].squads[0]).toBe(before.groups[0].squads[0]);
+    });
+
+    it('keeps a valid alt and ignores an unknown one', () => {
+      const pool = [member('a', { characters: [{ id: 'alt', profession: '铁衣', ult: '无', clan: '无' }] })];
+      const s = state(board(), pool);
+      const withAlt = rosterReducer(s, { type: 'assign', memberId: 'a', to: { gIdx: 0, sIdx: 0, slotIdx: 0 }, characterId: 'alt' });
+      expect(withAlt.groups[0].squads[0].slots[0].characterId).toBe('alt');
+      const unknown = rosterReducer(s, { type: 'assign', memberId: 'a', to: { gIdx: 0, sIdx: 0, slotIdx: 0 }, characterId: 'nope' });
+      expect(unknown.groups[0].squads[0].slots[0].characterId).toBeUndefined();
+    });
+
+    it('refuses archived members and unknown slots', () => {
+      const s = state(board(), [member('a', { archived: true }), member('b')]);
+      expect(rosterReducer(s, { type: 'assign', memberId: 'a', to: { gIdx: 0, sIdx: 0, slotIdx: 0 } })).toBe(s);
+      expect(rosterReducer(s, { type: 'assign', memberId: 'b', to: { gIdx: 0, sIdx: 0, slotIdx: 9 } })).toBe(s);
+    });
+  });
+
+  describe('swap', () => {
+    it('exchanges occupants together with their character choice', () => {
+      const groups = board({ s1: ['a', 'b'] });
+      groups[0].squads[0].slots[0].characterId = 'alt';
+      const next = rosterReducer(state(groups), { type: 'swap', from: { gIdx: 0, sIdx: 0, slotIdx: 0 }, to: { gIdx: 0, sIdx: 0, slotIdx: 1 } });
+      expect(next.groups[0].squads[0].slots.slice(0, 2)).toEqual([
+        { id: 's1-0', memberId: 'b' },
+        { id: 's1-1', memberId: 'a', characterId: 'alt' }
+      ]);
+    });
+
+    it('moves a member into an empty slot', () => {
+      const next = rosterReducer(state(board({ s1: ['a'] })), { type: 'swap', from: { gIdx: 0, sIdx: 0, slotIdx: 0 }, to: { gIdx: 1, sIdx: 0, slotIdx: 0 } });
+      expect(slotIds(next.groups)).toEqual([null, null, null, null, null, 'a', null]);
+    });
+  });
+
+  describe('bench', () => {
+    it('moves a member from a slot onto a bench', () => {
+      const next = rosterReducer(state(board({ s1: ['a'] })), { type: 'bench', memberId: 'a', to: { gIdx: 0, sIdx: 1 } });
+      expect(next.groups[0].squads[0].slots[0].memberId).toBeNull();
+      expect(next.groups[0].squads[1].bench).toEqual(['a']);
+    });
+
+    it('moves a member between benches', () => {
+      const next = rosterReducer(state(board({}, { s1: ['a', 'b'] })), { type: 'bench', memberId: 'a', to: { gIdx: 1 } });
+      expect(next.groups[0].squads[0].bench).toEqual(['b']);
+    });
+
+    it('refuses archived members', () => {
+      const s = state(board(), [member('a', { archived: true })]);
+      expect(rosterReducer(s, { type: 'bench', memberId: 'a', to: { gIdx: 0 } })).toBe(s);
+    });
+  });
+
+  describe('promote', () => {
+    it('puts the benched member in the slot and the occupant in their bench spot', () => {
+      const next = rosterReducer(state(board({ s1: ['a'] }, { s1: ['b', 'c', 'd'] })), { type: 'promote', memberId: 'c', to: { gIdx: 0, sIdx: 0, slotIdx: 0 } });
+      expect(next.groups[0].squads[0].slots[0].memberId).toBe('c');
+      expect(next.groups[0].squads[0].bench).toEqual(['b', 'a', 'd']);
+    });
+
+    it('falls back to assign for members not on a bench', () => {
+      const next = rosterReducer(state(board({ s1: ['a'] })), { type: 'promote', memberId: 'b', to: { gIdx: 0, sIdx: 0, slotIdx: 0 } });
+      expect(next.groups[0].squads[0].slots[0].memberId).toBe('b');
+      expect(placements(next.groups)).toEqual(['b']);
+    });
+  });
+
+  describe('moveSquad', () => {
+    it('moves a squad with its members into another group', () => {
+      const next = rosterReducer(state(board({ s1: ['a'] }, { s1: ['b'] })), { type: 'moveSquad', from: { gIdx: 0, sIdx: 0 }, to: { gIdx: 1, sIdx: 0 } });
+      expect(next.groups[0].squads.map(s => s.id)).toEqual(['s2']);
+      expect(next.groups[1].squads.map(s => s.id)).toEqual(['s1', 's3']);
+      expect(next.groups[1].squads[0].slots[0].memberId).toBe('a');
+      expect(next.groups[1].squads[0].bench).toEqual(['b']);
+    });
+
+    it('reorders within a group and ignores invalid moves', () => {
+      const s = state(board());
+      expect(rosterReducer(s, { type: 'moveSquad', from: { gIdx: 0, sIdx: 0 }, to: { gIdx: 0, sIdx: 1 } }).groups[0].squads.map(sq => sq.id)).toEqual(['s2', 's1']);
+      expect(rosterReducer(s, { type: 'moveSquad', from: { gIdx: 0, sIdx: 5 }, to: { gIdx: 1, sIdx: 0 } })).toBe(s);
+      expect(rosterReducer(s, { type: 'moveSquad', from: { gIdx: 0, sIdx: 0 }, to: { gIdx: 0, sIdx: 0 } })).toBe(s);
+    });
+  });
+
+  describe('setPool', () => {
+    const altPool = () => [
+      member('a', { characters: [{ id: 'alt', profession: '铁衣', ult: '无', clan: '无' }] }),
+      member('b'),
+      member('c')
+    ];
+
+    it('clears slots and benches of removed and archived members in the board and every plan', () => {
+      const active = board({ s1: ['a', 'b'] }, { s2: ['c'] });
+      const other = board({ s3: ['c', 'b'] }, { g1: ['a'] });
+      const s: AppData = { ...state(active, altPool()), plans: [{ id: 'p1', name: 'P1', groups: active }, { id: 'p2', name: 'P2', groups: other }] };
+      const next = rosterReducer(s, { type: 'setPool', pool: [member('a', { archived: true }), member('c')] });
+      expect(placements(next.groups)).toEqual(['c']);
+      expect(placements(next.plans![1].groups)).toEqual(['c']);
+    });
+
+    it('drops character choices whose alt no longer exists, in every plan', () => {
+      const active = board({ s1: ['a'] });
+      active[0].squads[0].slots[0].characterId = 'alt';
+      const other = board({ s3: ['a'] });
+      other[1].squads[0].slots[0].characterId = 'alt';
+      const s: AppData = { ...state(active, altPool()), plans: [{ id: 'p1', name: 'P1', groups: active }, { id: 'p2', name: 'P2', groups: other }] };
+      const next = rosterReducer(s, { type: 'setPool', pool: [member('a'), member('b'), member('c')] });
+      expect(next.groups[0].squads[0].slots[0]).toEqual({ id: 's1-0', memberId: 'a' });
+      expect(next.plans![1].groups[1].squads[0].slots[0]).toEqual({ id: 's3-0', memberId: 'a' });
+    });
+
+    it('leaves plans that need no pruning untouched', () => {
+      const s = state(board({ s1: ['a'] }));
+      const next = rosterReducer(s, { type: 'setPool', pool: [...s.pool, member('e')] });
+      expect(next.groups).toBe(s.groups);
+      expect(next.plans![0]).toBe(s.plans![0]);
+    });
+  });
+
+  describe('mergeMembers', () => {
+    it('moves the duplicate\'s places and history to the survivor and drops the duplicate', () => {
+      const active = board({ s1: ['b'] });
+      const other = board({}, { g2: ['b'] });
+      const s: AppData = {
+        ...state(active, [member('a', { note: '' }), member('b', { note: '指挥', tags: ['主力'] })]),
+        plans: [{ id: 'p1', name: 'P1', groups: active }, { id: 'p2', name: 'P2', groups: other }],
+        history: [{ id: 'e1', name: 'E1', date: '2026-01-01', played: ['b'], benched: ['a'] }]
+      };
+      const next = rosterReducer(s, { type: 'mergeMembers', survivorId: 'a', duplicateId: 'b' });
+      expect(next.pool.map(m => m.id)).toEqual(['a']);
+      expect(next.pool[0]).toMatchObject({ id: 'a', name: 'A', note: '指挥', tags: ['主力'] });
+      expect(placements(next.groups)).toEqual(['a']);
+      expect(placements(next.plans![1].groups)).toEqual(['a']);
+      expect(next.history![0]).toMatchObject({ played: ['a'], benched: ['a'] });
+    });
+
+    it('drops the duplicate\'s place where the survivor is already on the board', () => {
+      const next = rosterReducer(state(board({ s1: ['a', 'b'] })), { type: 'mergeMembers', survivorId: 'a', duplicateId: 'b' });
+      expect(slotIds(next.groups).filter(Boolean)).toEqual(['a']);
+    });
+
+    it('keeps the survivor\'s archived state', () => {
+      const s = state(board({ s1: ['a'] }), [member('a'), member('b', { archived: true })]);
+      const next = rosterReducer(s, { type: 'mergeMembers', survivorId: 'a', duplicateId: 'b' });
+      expect(next.pool[0].archived).toBeFalsy();
+      expect(placements(next.groups)).toEqual(['a']);
+    });
+
+    it('clears the places of an archived survivor', () => {
+      const s = state(board({ s1: ['b'] }), [member('a', { archived: true }), member('b')]);
+      const next = rosterReducer(s, { type: 'mergeMembers', survivorId: 'a', duplicateId: 'b' });
+      expect(next.pool[0].archived).toBe(true);
+      expect(placements(next.groups)).toEqual([]);
+      expect(placements(next.plans![0].groups)).toEqual([]);
+    });
+
+    it('attaches an alt: its main becomes a character of the owner that keeps its slots', () => {
+      const s: AppData = {
+        ...state(board({ s1: ['b'] }), [
+          member('a', { note: '指挥', power: 100 }),
+          member('b', { profession: '铁衣', note: '奶妈号', tags: ['小号'], power: 50, custom: { QQ: '123' } })
+        ]),
+        history: [{ id: 'e1', name: 'E1', date: '2026-01-01', played: ['b'], benched: [] }]
+      };
+      const next = rosterReducer(s, { type: 'mergeMembers', survivorId: 'a', duplicateId: 'b', asCharacterId: 'alt-b' });
+      expect(next.pool).toHaveLength(1);
+      expect(next.pool[0]).toMatchObject({ note: '指挥 奶妈号', tags: ['小号'], power: 100, custom: { QQ: '123' } });
+      expect(next.pool[0].characters).toEqual([{ id: 'alt-b', name: 'B', profession: '铁衣', ult: '无', clan: '无' }]);
+      expect(next.groups[0].squads[0].slots[0]).toMatchObject({ memberId: 'a', characterId: 'alt-b' });
+      expect(next.history![0].played).toEqual(['a']);
+    });
+  });
+
+  it('never leaves a member in more than one slot or bench', () => {
+    const actions: RosterAction[] = [
+      { type: 'assign', memberId: 'a', to: { gIdx: 0, sIdx: 0, slotIdx: 0 } },
+      { type: 'bench', memberId: 'b', to: { gIdx: 0, sIdx: 0 } },
+      { type: 'assign', memberId: 'a', to: { gIdx: 1, sIdx: 0, slotIdx: 1 } },
+      { type: 'bench', memberId: 'a', to: { gIdx: 1 } },
+      { type: 'promote', memberId: 'b', to: { gIdx: 0, sIdx: 1, slotIdx: 0 } },
+      { type: 'promote', memberId: 'a', to: { gIdx: 0, sIdx: 1, slotIdx: 0 } },
+      { type: 'assign', memberId: 'c', to: { gIdx: 0, sIdx: 1, slotIdx: 0 } },
+      { type: 'swap', from: { gIdx: 0, sIdx: 1, slotIdx: 0 }, to: { gIdx: 1, sIdx: 0, slotIdx: 0 } },
+      { type: 'bench', memberId: 'c', to: { gIdx: 1 } },
+      { type: 'moveSquad', from: { gIdx: 1, sIdx: 0 }, to: { gIdx: 0, sIdx: 0 } },
+      { type: 'assign', memberId: 'd', to: { gIdx: 0, sIdx: 0, slotIdx: 0 } },
+      { type: 'promote', memberId: 'c', to: { gIdx: 0, sIdx: 0, slotIdx: 0 } },
+      { type: 'mergeMembers', survivorId: 'c', duplicateId: 'd' }
+    ];
+    let s = state(board());
+    actions.forEach(action => {
+      s = rosterReducer(s, action);
+      const ids = placements(s.groups);
+      expect(new Set(ids).size, `after ${action.type}`).toBe(ids.length);
+    });
+    expect(placements(s.groups).length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,321 @@
+
+import { AppData, AttendanceStatus, GameConfig, Group, Member, Slot } from '../types';
+import { attachAltRecord, mergeMemberRecords } from './duplicates';
+
+export interface SlotRef {
+  gIdx: number;
+  sIdx: number;
+  slotIdx: number;
+}
+
+export interface SquadRef {
+  gIdx: number;
+  sIdx: number;
+}
+
+export interface BenchRef {
+  gIdx: number;
+  sIdx?: number; // Omitted for the group-wide bench
+}
+
+export type RosterAction =
+  | { type: 'assign'; memberId: string; to: SlotRef; characterId?: string } // Moves the member out of any other slot; replaces the occupant
+  | { type: 'setCharacter'; at: SlotRef; characterId?: string } // Which of the occupant's characters plays in this slot
+  | { type: 'unassign'; at: SlotRef }
+  | { type: 'swap'; from: SlotRef; to: SlotRef } // Exchanges two slots' occupants (either may be empty)
+  | { type: 'bench'; memberId: string; to: BenchRef } // Moves the member out of any slot or bench onto this bench
+  | { type: 'unbench'; memberId: string }
+  | { type: 'promote'; memberId: string; to: SlotRef } // Bench -> slot; the previous occupant takes the bench spot
+  | { type: 'moveSquad'; from: SquadRef; to: SquadRef } // Moves a squad with its members, also across groups
+  | { type: 'renameSquad'; at: SquadRef; name: string }
+  | { type: 'updateMember'; member: Member }
+  | { type: 'deleteMember'; memberId: string }
+  | { type: 'mergeMembers'; survivorId: string; duplicateId: string; asCharacterId?: string } // Duplicate's placements, in every plan, move to the survivor; with `asCharacterId` the duplicate becomes that alt
+  | { type: 'setPool'; pool: Member[] } // Slots and benches of removed or archived members are cleared in every plan
+  | { type: 'setAttendance'; memberIds: string[]; planId: string; status: AttendanceStatus }
+  | { type: 'setGroups'; groups: Group[] }
+  | { type: 'setGameConfig'; config: GameConfig };
+
+const getSlot = (groups: Group[], ref: SlotRef): Slot | undefined =>
+  groups[ref.gIdx]?.squads[ref.sIdx]?.slots[ref.slotIdx];
+
+// Applies `fn` to every slot; untouched groups, squads and slots keep their identity
+// so memoized board components only re-render what changed.
+const mapSlots = (groups: Group[], fn: (slot: Slot, ref: SlotRef) => Slot): Group[] => {
+  let groupsChanged = false;
+  const next = groups.map((g, gIdx) => {
+    let squadsChanged = false;
+    const squads = g.squads.map((s, sIdx) => {
+      let slotsChanged = false;
+      const slots = s.slots.map((sl, slotIdx) => {
+        const updated = fn(sl, { gIdx, sIdx, slotIdx });
+        if (updated !== sl) slotsChanged = true;
+        return updated;
+      });
+      if (!slotsChanged) return s;
+      squadsChanged = true;
+      return { ...s, slots };
+    });
+    if (!squadsChanged) return g;
+    groupsChanged = true;
+    return { ...g, squads };
+  });
+  return groupsChanged ? next : groups;
+};
+
+// Same idea for benches: `fn` gets each squad and group bench, unchanged ones keep their identity
+const NO_BENCH: string[] = [];
+
+const mapBenches = (groups: Group[], fn: (bench: string[], ref: BenchRef) => string[]): Group[] => {
+  let groupsChanged = false;
+  const next = groups.map((g, gIdx) => {
+    let squadsChanged = false;
+    const squads = g.squads.map((s, sIdx) => {
+      const current = s.bench || NO_BENCH;
+      const bench = fn(current, { gIdx, sIdx });
+      if (bench === current) return s;
+      squadsChanged = true;
+      return { ...s, bench };
+    });
+    const currentGroupBench = g.bench || NO_BENCH;
+    const groupBench = fn(currentGroupBench, { gIdx });
+    if (!squadsChanged && groupBench === currentGroupBench) return g;
+    groupsChanged = true;
+    return { ...g, squads: squadsChanged ? squads : g.squads, bench: groupBench === currentGroupBench ? g.bench : groupBench };
+  });
+  return groupsChanged ? next : groups;
+};
+
+const withoutMember = (bench: string[], memberId: string) =>
+  bench.includes(memberId) ? bench.filter(id => id !== memberId) : bench;
+
+const getBench = (groups: Group[], ref: BenchRef): string[] | undefined => {
+  const group = groups[ref.gIdx];
+  if (!group) return undefined;
+  if (ref.sIdx === undefined) return group.bench || [];
+  const squad = group.squads[ref.sIdx];
+  return squad ? squad.bench || [] : undefined;
+};
+
+const findBench = (groups: Group[], memberId: string): { ref: BenchRef; index: number } | undefined => {
+  for (let gIdx = 0; gIdx < groups.length; gIdx++) {
+    const g = groups[gIdx];
+    for (let sIdx = 0; sIdx < g.squads.length; sIdx++) {
+      const index = (g.squads[sIdx].bench || []).indexOf(memberId);
+      if (index >= 0) return { ref: { gIdx, sIdx }, index };
+    }
+    const index = (g.bench || []).indexOf(memberId);
+    if (index >= 0) return { ref: { gIdx }, index };
+  }
+  return undefined;
+};
+
+const sameBench = (a: BenchRef, b: BenchRef) => a.gIdx === b.gIdx && a.sIdx === b.sIdx;
+
+// Ids of every member sitting on a squad or group bench
+export const collectBenchIds = (groups: Group[]) => {
+  const ids = new Set<string>();
+  groups.forEach(g => {
+    g.bench?.forEach(id => ids.add(id));
+    g.squads.forEach(s => s.bench?.forEach(id => ids.add(id)));
+  });
+  return ids;
+};
+
+// Drops bench entries that fail `keep` (e.g. members no longer in the pool)
+export const pruneBenches = (groups: Group[], keep: (memberId: string) => boolean) =>
+  mapBenches(groups, bench => bench.every(keep) ? bench : bench.filter(keep));
+
+const sameRef = (a: SlotRef, b: SlotRef) => a.gIdx === b.gIdx && a.sIdx === b.sIdx && a.slotIdx === b.slotIdx;
+
+// A new occupant starts on their main character unless `characterId` says otherwise
+const withMember = (slot: Slot, memberId: string | null, characterId?: string): Slot => {
+  if (slot.memberId === memberId && slot.characterId === characterId) return slot;
+  const { characterId: _, ...rest } = slot;
+  return characterId ? { ...rest, memberId, characterId } : { ...rest, memberId };
+};
+
+// Clears character choices that no longer exist on the member (alt removed or member gone)
+const pruneCharacters = (groups: Group[], pool: Member[]) => {
+  const byId = new Map(pool.map(m => [m.id, m]));
+  return mapSlots(groups, sl => {
+    if (!sl.characterId) return sl;
+    const member = sl.memberId ? byId.get(sl.memberId) : undefined;
+    return member?.characters?.some(c => c.id === sl.characterId) ? sl : withMember(sl, sl.memberId);
+  });
+};
+
+// Points every slot and bench entry of `fromId` at `toId`; where `toId` already has a place on that board, the entry is dropped.
+// Slots where `fromId` played their main play `mainAs` instead, when given.
+const remapMember = (groups: Group[], fromId: string, toId: string, mainAs?: string): Group[] => {
+  const present = collectBenchIds(groups);
+  groups.forEach(g => g.squads.forEach(s => s.slots.forEach(sl => { if (sl.memberId) present.add(sl.memberId); })));
+  if (!present.has(fromId)) return groups;
+  const keep = !present.has(toId);
+  const slotted = mapSlots(groups, sl => sl.memberId === fromId ? withMember(sl, keep ? toId : null, keep ? sl.characterId || mainAs : undefined) : sl);
+  return mapBenches(slotted, bench => {
+    if (!bench.includes(fromId)) return bench;
+    return keep ? bench.map(id => id === fromId ? toId : id) : bench.filter(id => id !== fromId);
+  });
+};
+
+const withGroups = (state: AppData, groups: Group[]): AppData =>
+  groups === state.groups ? state : { ...state, groups };
+
+// Pure state transitions for the board. Invalid references leave the state untouched,
+// and no action can leave a member in more than one slot, whichever character they play.
+export const rosterReducer = (state: AppData, action: RosterAction): AppData => {
+  switch (action.type) {
+    case 'assign': {
+      const member = state.pool.find(m => m.id === action.memberId);
+      if (!getSlot(state.groups, action.to) || !member || member.archived) return state;
+      const characterId = member.characters?.some(c => c.id === action.characterId) ? action.characterId : undefined;
+      const groups = mapSlots(state.groups, (sl, ref) => {
+        if (sameRef(ref, action.to)) return withMember(sl, action.memberId, characterId);
+        return sl.memberId === action.memberId ? withMember(sl, null) : sl;
+      });
+      return withGroups(state, mapBenches(groups, bench => withoutMember(bench, action.memberId)));
+    }
+
+    case 'bench': {
+      const target = getBench(state.groups, action.to);
+      if (!target || target.includes(action.memberId) || !state.pool.some(m => m.id === action.memberId && !m.archived)) return state;
+      const cleared = mapSlots(state.groups, sl => sl.memberId === action.memberId ? withMember(sl, null) : sl);
+      return withGroups(state, mapBenches(cleared, (bench, ref) => {
+        const rest = withoutMember(bench, action.memberId);
+        return sameBench(ref, action.to) ? [...rest, action.memberId] : rest;
+      }));
+    }
+
+    case 'unbench':
+      return withGroups(state, mapBenches(state.groups, bench => withoutMember(bench, action.memberId)));
+
+    case 'promote': {
+      const slot = getSlot(state.groups, action.to);
+      const from = findBench(state.groups, action.memberId);
+      if (!slot || !from) return rosterReducer(state, { type: 'assign', memberId: action.memberId, to: action.to });
+      const occupant = slot.memberId;
+      const groups = mapSlots(state.groups, (sl, ref) => sameRef(ref, action.to) ? withMember(sl, action.memberId) : sl);
+      return withGroups(state, mapBenches(groups, (bench, ref) => {
+        if (!sameBench(ref, from.ref)) return bench;
+        const next = bench.filter(id => id !== action.memberId);
+        if (occupant) next.splice(from.index, 0, occupant);
+        return next;
+      }));
+    }
+
+    case 'setCharacter': {
+      const slot = getSlot(state.groups, action.at);
+      const member = slot?.memberId ? state.pool.find(m => m.id === slot.memberId) : undefined;
+      if (!slot || !member) return state;
+      if (action.characterId && !member.characters?.some(c => c.id === action.characterId)) return state;
+      return withGroups(state, mapSlots(state.groups, (sl, ref) => sameRef(ref, action.at) ? withMember(sl, sl.memberId, action.characterId) : sl));
+    }
+
+    case 'unassign': {
+      if (!getSlot(state.groups, action.at)) return state;
+      return withGroups(state, mapSlots(state.groups, (sl, ref) => sameRef(ref, action.at) ? withMember(sl, null) : sl));
+    }
+
+    case 'swap': {
+      const from = getSlot(state.groups, action.from);
+      const to = getSlot(state.groups, action.to);
+      if (!from || !to || from === to) return state;
+      return withGroups(state, mapSlots(state.groups, (sl, ref) => {
+        if (sameRef(ref, action.from)) return withMember(sl, to.memberId, to.characterId);
+        if (sameRef(ref, action.to)) return withMember(sl, from.memberId, from.characterId);
+        return sl;
+      }));
+    }
+
+    case 'moveSquad': {
+      const { from, to } = action;
+      const squad = state.groups[from.gIdx]?.squads[from.sIdx];
+      if (!squad || !state.groups[to.gIdx]) return state;
+      if (from.gIdx === to.gIdx && from.sIdx === to.sIdx) return state;
+      const groups = state.groups.map(g => ({ ...g, squads: [...g.squads] }));
+      groups[from.gIdx].squads.splice(from.sIdx, 1);
+      const target = groups[to.gIdx].squads;
+      target.splice(Math.min(Math.max(to.sIdx, 0), target.length), 0, squad);
+      return { ...state, groups };
+    }
+
+    case 'renameSquad': {
+      const group = state.groups[action.at.gIdx];
+      const squad = group?.squads[action.at.sIdx];
+      if (!squad || squad.name === action.name) return state;
+      const squads = [...group.squads];
+      squads[action.at.sIdx] = { ...squad, name: action.name };
+      const groups = [...state.groups];
+      groups[action.at.gIdx] = { ...group, squads };
+      return { ...state, groups };
+    }
+
+    case 'updateMember': {
+      if (!state.pool.some(m => m.id === action.member.id)) return state;
+      const pool = state.pool.map(m => m.id === action.member.id ? action.member : m);
+      return { ...state, pool, groups: pruneCharacters(state.groups, pool) };
+    }
+
+    case 'deleteMember':
+      return rosterReducer(state, { type: 'setPool', pool: state.pool.filter(m => m.id !== action.memberId) });
+
+    case 'mergeMembers': {
+      const { survivorId, duplicateId, asCharacterId } = action;
+      const survivor = state.pool.find(m => m.id === survivorId);
+      const duplicate = state.pool.find(m => m.id === duplicateId);
+      if (!survivor || !duplicate || survivor === duplicate) return state;
+      const merged = asCharacterId ? attachAltRecord(survivor, duplicate, asCharacterId) : mergeMemberRecords(survivor, duplicate);
+      const remapIds = (ids: string[]) => ids.includes(duplicateId) ? Array.from(new Set(ids.map(id => id === duplicateId ? survivorId : id))) : ids;
+      const remapped = {
+        ...state,
+        groups: remapMember(state.groups, duplicateId, survivorId, asCharacterId),
+        plans: state.plans?.map(p => ({ ...p, groups: remapMember(p.groups, duplicateId, survivorId, asCharacterId) })),
+        history: state.history?.map(e => ({ ...e, played: remapIds(e.played), benched: remapIds(e.benched) }))
+      };
+      // An archived survivor must not keep the duplicate's places
+      return rosterReducer(remapped, { type: 'setPool', pool: state.pool.filter(m => m.id !== duplicateId).map(m => m.id === survivorId ? merged : m) });
+    }
+
+    case 'setPool': {
+      const deployable = new Set(action.pool.filter(m => !m.archived).map(m => m.id));
+      const prune = (groups: Group[]) => pruneCharacters(pruneBenches(
+        mapSlots(groups, sl => sl.memberId && !deployable.has(sl.memberId) ? withMember(sl, null) : sl),
+        id => deployable.has(id)
+      ), action.pool);
+      return {
+        ...state,
+        pool: action.pool,
+        groups: prune(state.groups),
+        plans: state.plans?.map(p => {
+          const groups = prune(p.groups);
+          return groups === p.groups ? p : { ...p, groups };
+        })
+      };
+    }
+
+    case 'setAttendance': {
+      const ids = new Set(action.memberIds);
+      let changed = false;
+      const pool = state.pool.map(m => {
+        if (!ids.has(m.id) || (m.attendance?.[action.planId] || 'none') === action.status) return m;
+        changed = true;
+        const attendance = { ...m.attendance };
+        // 'none' is the default, so it is stored as a missing entry
+        if (action.status === 'none') delete attendance[action.planId];
+        else attendance[action.planId] = action.status;
+        return { ...m, attendance };
+      });
+      return changed ? { ...state, pool } : state;
+    }
+
+    case 'setGroups':
+      return withGroups(state, action.groups);
+
+    case 'setGameConfig':
+      return { ...state, gameConfig: action.config };
+
+    default:
+      return state;
+  }
+};
@@ -0,0 +1,118 @@
+
+import { AppData } from '../types';
+import { validateRosterData } from './validation';
+import { migrateData, CURRENT_SCHEMA_VERSION } from './migrations';
+import { getActivePlan } from './plans';
+import { collectBenchIds } from './roster';
+
+export const SHARE_HASH_PREFIX = '#share=';
+// ?view opens the read-only viewer; ?view=<url> loads a published JSON file instead of local data
+export const VIEWER_PARAM = 'view';
+
+// Payload tags: 'z' = deflate-raw compressed JSON, 'j' = plain JSON (no CompressionStream support)
+const COMPRESSED = 'z';
+const PLAIN = 'j';
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (str: string) => {
+  const b64 = str.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(b64 + '='.repeat((4 - b64.length % 4) % 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) => {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+};
+
+// Only the active board and the members it references are shared, not the whole pool or plan library
+export const buildShareData = (data: AppData): AppData => {
+  const referenced = collectBenchIds(data.groups);
+  data.groups.forEach(g => g.squads.forEach(s => s.slots.forEach(sl => {
+    if (sl.memberId) referenced.add(sl.memberId);
+  })));
+  const plan = getActivePlan(data);
+
+  return {
+    schemaVersion: data.schemaVersion ?? CURRENT_SCHEMA_VERSION,
+    pool: data.pool.filter(m => referenced.has(m.id)),
+    groups: data.groups,
+    gameConfig: data.gameConfig,
+    plans: plan ? [{ ...plan, groups: data.groups }] : undefined,
+    activePlanId: plan?.id
+  };
+};
+
+export const encodeShareData = async (data: AppData): Promise<string> => {
+  const bytes = new TextEncoder().encode(JSON.stringify(buildShareData(data)));
+  if (typeof CompressionStream === 'undefined') return PLAIN + toBase64Url(bytes);
+  return COMPRESSED + toBase64Url(await transform(bytes, new CompressionStream('deflate-raw')));
+};
+
+// Shared and published rosters come from outside, so they go through the same validation and migrations as imports
+const parseExternalRoster = (raw: any): AppData => {
+  const result = validateRosterData(raw);
+  if (result.fatal) throw new Error(result.issues.map(i => `${i.path} ${i.message}`).join('; '));
+  return migrateData(result.repaired);
+};
+
+export const decodeShareData = async (encoded: string): Promise<AppData> => {
+  const tag = encoded[0];
+  let bytes = fromBase64Url(encoded.slice(1));
+  if (tag === COMPRESSED) {
+    bytes = await transform(bytes, new DecompressionStream('deflate-raw'));
+  } else if (tag !== PLAIN) {
+    throw new Error(`Unknown share format "${tag}"`);
+  }
+
+  return parseExternalRoster(JSON.parse(new TextDecoder().decode(bytes)));
+};
+
+export const parsePublishedRoster = (json: string): AppData => parseExternalRoster(JSON.parse(json));
+
+export const fetchPublishedRoster = async (url: string): Promise<AppData> => {
+  const res = await fetch(url, { cache: 'no-cache' });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return parsePublishedRoster(await res.text());
+};
+
+// Links open in the viewer by default, since most recipients only need to find their own slot
+export const createShareUrl = async (data: AppData, viewer = true) => {
+  const { origin, pathname } = window.location;
+  const params = new URLSearchParams(window.location.search);
+  if (viewer) params.set(VIEWER_PARAM, '1'); else params.delete(VIEWER_PARAM);
+  const search = params.toString() ? `?${params}` : '';
+  return `${origin}${pathname}${search}${SHARE_HASH_PREFIX}${await encodeShareData(data)}`;
+};
+
+export const isViewerMode = () => new URLSearchParams(window.location.search).has(VIEWER_PARAM);
+
+// The published file to load in the viewer, or null for the share hash / local data
+export const getPublishedUrl = () => {
+  const value = new URLSearchParams(window.location.search).get(VIEWER_PARAM);
+  return value && value !== '1' ? value : null;
+};
+
+// Same location without the viewer param, keeping any share hash so the editor can offer to import it
+export const getEditorUrl = () => {
+  const params = new URLSearchParams(window.location.search);
+  params.delete(VIEWER_PARAM);
+  const search = params.toString() ? `?${params}` : '';
+  return `${window.location.pathname}${search}${window.location.hash}`;
+};
+
+export const readShareFromLocation = async (): Promise<AppData | null> => {
+  const { hash } = window.location;
+  if (!hash.startsWith(SHARE_HASH_PREFIX)) return null;
+  return decodeShareData(hash.slice(SHARE_HASH_PREFIX.length));
+};
+
+export const clearShareFromLocation = () => {
+  const { pathname, search } = window.location;
+  window.history.replaceState(null, '', pathname + search);
+};
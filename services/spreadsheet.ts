@@ -0,0 +1,232 @@
+
+import { AppData, Member, MemberStatKey, MEMBER_STATS, CLASS_COLORS } from '../types';
+import { generateId } from './storage';
+import { mergeTags } from './tags';
+import { findDuplicate, normalizeMemberName } from './duplicates';
+
+export type MemberColumn = 'name' | 'profession' | 'ult' | 'clan' | 'note' | MemberStatKey | 'tags';
+
+// A column maps to a Member field, to a custom attribute ("custom:<name>"), or is ignored ('')
+export type ColumnTarget = MemberColumn | `custom:${string}` | '';
+
+export const MEMBER_COLUMNS: { key: MemberColumn; label: string; aliases: string[] }[] = [
+  { key: 'name', label: '名字', aliases: ['名字', '昵称', '角色名', '游戏id', '游戏名', 'id', 'name'] },
+  { key: 'profession', label: '职业', aliases: ['职业', '门派', 'profession', 'class'] },
+  { key: 'ult', label: '绝技', aliases: ['绝技', 'ult'] },
+  { key: 'clan', label: '百家', aliases: ['百家', 'clan'] },
+  { key: 'note', label: '备注', aliases: ['备注', '说明', 'note'] },
+  ...MEMBER_STATS.map(({ key, label }) => ({ key, label, aliases: [label.toLowerCase(), key, ...(key === 'power' ? ['评分'] : [])] })),
+  { key: 'tags', label: '标签', aliases: ['标签', 'tags'] },
+];
+
+export const CUSTOM_PREFIX = 'custom:';
+
+// Board position columns written by the export; informational only, so the importer skips them
+export const ASSIGNMENT_COLUMNS = { group: '团', squad: '队伍', slot: '位置' } as const;
+const ASSIGNMENT_HEADERS: string[] = Object.values(ASSIGNMENT_COLUMNS);
+
+export const columnLabel = (target: ColumnTarget) =>
+  target.startsWith(CUSTOM_PREFIX) ? `自定义: ${target.slice(CUSTOM_PREFIX.length)}` : MEMBER_COLUMNS.find(c => c.key === target)?.label || '忽略';
+
+// Tab wins when the first line has one (pasted from Excel/WPS), otherwise comma
+export const detectDelimiter = (text: string) => {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  return firstLine.includes('\t') ? '\t' : ',';
+};
+
+// RFC 4180 style: quoted cells may contain the delimiter, line breaks and doubled quotes
+export const parseDelimited = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"' && cell === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell); cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell); cell = '';
+      rows.push(row); row = [];
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length > 0) { row.push(cell); rows.push(row); }
+  return rows.map(r => r.map(c => c.trim())).filter(r => r.some(c => c !== ''));
+};
+
+// Spreadsheets saved by Excel on Chinese Windows are usually GBK rather than UTF-8
+export const decodeSpreadsheetFile = async (file: File): Promise<string> => {
+  const buffer = await file.arrayBuffer();
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('gbk').decode(buffer);
+  }
+};
+
+const matchColumn = (header: string): MemberColumn | undefined => {
+  const h = header.trim().toLowerCase();
+  return MEMBER_COLUMNS.find(c => c.aliases.includes(h))?.key;
+};
+
+// The first row is a header when any of its cells names a known column
+export const looksLikeHeader = (row: string[] | undefined) => !!row && row.some(cell => !!matchColumn(cell));
+
+// Header cells map to known fields, anything else to a custom attribute of the same name.
+// Without a header the legacy batch order is assumed: name, profession, ult, clan, note.
+export const guessMapping = (rows: string[][], hasHeader: boolean): ColumnTarget[] => {
+  const width = Math.max(0, ...rows.map(r => r.length));
+  if (!hasHeader) {
+    const order: ColumnTarget[] = ['name', 'profession', 'ult', 'clan', 'note'];
+    return Array.from({ length: width }, (_, i) => order[i] || '');
+  }
+  const used = new Set<ColumnTarget>();
+  return Array.from({ length: width }, (_, i) => {
+    const header = rows[0][i] || '';
+    if (ASSIGNMENT_HEADERS.includes(header)) return '';
+    const field = matchColumn(header);
+    const target: ColumnTarget = field ? field : header ? `${CUSTOM_PREFIX}${header}` as ColumnTarget : '';
+    if (used.has(target)) return '';
+    used.add(target);
+    return target;
+  });
+};
+
+export interface SpreadsheetRow {
+  line: number; // 1-based row number in the sheet, for error messages
+  member: Partial<Member>;
+  existingId?: string; // Set when the name matches a member already in the pool
+  restoresArchived?: boolean; // The matched member is archived and will be restored
+  errors: string[]; // Rows with errors are skipped
+  warnings: string[];
+}
+
+export const buildSpreadsheetRows = (rows: string[][], hasHeader: boolean, mapping: ColumnTarget[], pool: Member[]): SpreadsheetRow[] => {
+  const seen = new Set<string>();
+  const body = hasHeader ? rows.slice(1) : rows;
+
+  return body.map((cells, i) => {
+    const line = i + 1 + (hasHeader ? 1 : 0);
+    const member: Partial<Member> = {};
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    mapping.forEach((target, col) => {
+      const value = (cells[col] || '').trim();
+      if (!target || !value) return;
+      if (target.startsWith(CUSTOM_PREFIX)) {
+        member.custom = { ...member.custom, [target.slice(CUSTOM_PREFIX.length)]: value };
+        return;
+      }
+      const key = target as MemberColumn;
+      const stat = MEMBER_STATS.find(s => s.key === key);
+      if (stat) {
+        const num = Number(value.replace(/,/g, ''));
+        if (Number.isFinite(num)) member[stat.key] = num;
+        else errors.push(`${stat.label}「${value}」不是数字`);
+      } else if (key === 'tags') {
+        member.tags = mergeTags([], value.split(/[,，、;；\s]+/));
+      } else {
+        member[key as 'name' | 'profession' | 'ult' | 'clan' | 'note'] = value;
+      }
+    });
+
+    if (!member.name) {
+      errors.push('缺少名字');
+    } else if (seen.has(normalizeMemberName(member.name))) {
+      errors.push(`名字「${member.name}」在表格中重复`);
+    } else {
+      seen.add(normalizeMemberName(member.name));
+    }
+    const match = member.name ? findDuplicate(pool, member.name) : undefined;
+    const existingId = match?.exact ? match.member.id : undefined;
+    if (match && !match.exact) warnings.push(`可能与已有成员「${match.member.name}」重复`);
+    if (member.profession && !CLASS_COLORS[member.profession]) errors.push(`未知职业「${member.profession}」`);
+    if (!member.profession && !existingId) errors.push('新成员缺少职业');
+    if (existingId) warnings.push('已存在，将更新非空的列');
+    const restoresArchived = !!existingId && !!match?.member.archived;
+    if (restoresArchived) warnings.push('已归档，将恢复为在队');
+
+    return { line, member, existingId, restoresArchived, errors, warnings };
+  });
+};
+
+// Updates matching members with the non-empty cells and adds the rest; rows with errors are skipped.
+// An archived member listed in the sheet is restored, like re-adding them by hand.
+export const applySpreadsheetRows = (pool: Member[], rows: SpreadsheetRow[]) => {
+  const next = [...pool];
+  let added = 0, updated = 0, restored = 0;
+  rows.filter(r => r.errors.length === 0).forEach(({ member, existingId }) => {
+    const idx = existingId ? next.findIndex(m => m.id === existingId) : -1;
+    if (idx >= 0) {
+      const current = next[idx];
+      next[idx] = {
+        ...current,
+        ...member,
+        name: current.name,
+        tags: member.tags ? mergeTags(current.tags, member.tags) : current.tags,
+        custom: member.custom ? { ...current.custom, ...member.custom } : current.custom,
+        archived: false
+      };
+      if (current.archived) restored++;
+      updated++;
+    } else {
+      next.push({ ult: '无', clan: '无', ...member, id: generateId() } as Member);
+      added++;
+    }
+  });
+  return { pool: next, added, updated, restored };
+};
+
+// --- Export ---
+
+const escapeCell = (value: string, delimiter: string) =>
+  value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Where each member sits on the active board; benched members get "替补" as their position
+const describeAssignments = (data: AppData) => {
+  const placed = new Map<string, { group: string; squad: string; slot: string }>();
+  data.groups.forEach(g => {
+    g.squads.forEach(s => {
+      s.slots.forEach((sl, k) => { if (sl.memberId) placed.set(sl.memberId, { group: g.name, squad: s.name, slot: String(k + 1) }); });
+      s.bench?.forEach(id => placed.set(id, { group: g.name, squad: s.name, slot: '替补' }));
+    });
+    g.bench?.forEach(id => placed.set(id, { group: g.name, squad: '', slot: '团替补' }));
+  });
+  return placed;
+};
+
+// One row per member with the columns the spreadsheet importer recognises, custom attributes,
+// then the current board position. Placed members come first, in board order.
+export const exportPoolTable = (data: AppData, delimiter: ',' | '\t'): string => {
+  const customKeys = Array.from(new Set(data.pool.flatMap(m => Object.keys(m.custom || {}))));
+  const placed = describeAssignments(data);
+  const order = new Map(Array.from(placed.keys()).map((id, i) => [id, i]));
+  const members = [...data.pool].sort((a, b) =>
+    (order.get(a.id) ?? Infinity) - (order.get(b.id) ?? Infinity) || a.profession.localeCompare(b.profession));
+
+  const header = [
+    ...MEMBER_COLUMNS.map(c => c.label),
+    ...customKeys,
+    ASSIGNMENT_COLUMNS.group, ASSIGNMENT_COLUMNS.squad, ASSIGNMENT_COLUMNS.slot
+  ];
+  const rows = members.map(m => {
+    const at = placed.get(m.id);
+    return [
+      ...MEMBER_COLUMNS.map(({ key }) => key === 'tags' ? (m.tags || []).join('、') : m[key] !== undefined ? String(m[key]) : ''),
+      ...customKeys.map(k => m.custom?.[k] || ''),
+      at?.group || '', at?.squad || '', at?.slot || ''
+    ];
+  });
+  return [header, ...rows].map(r => r.map(c => escapeCell(c, delimiter)).join(delimiter)).join('\r\n');
+};
@@ -1,5 +1,9 @@
 
-import { AppData, Group, Member, DEFAULT_ULT_SKILLS, DEFAULT_CLAN_SKILLS } from '../types';
+import { AppData, Group, Member, GROUP_COLORS, DEFAULT_ULT_SKILLS, DEFAULT_CLAN_SKILLS } from '../types';
+import { syncActivePlan } from './plans';
+import { migrateData, CURRENT_SCHEMA_VERSION } from './migrations';
+import { idbGet, idbSet, idbDelete, idbUpdate } from './db';
+import { notifyRosterSaved } from './sync';
 
 export const generateId = () => {
   return Date.now().toString(36) + Math.random().toString(36).substr(2);
@@ -8,18 +12,30 @@ export const generateId = () => {
 const STORAGE_KEY = 'nsh_roster_data_v1';
 const BG_KEY = 'nsh_roster_bg_v1';
 
+// The stored record carries a revision that every save bumps, so a tab can tell
+// whether someone else wrote since it last loaded or saved.
+interface StoredRoster extends AppData {
+  revision?: number;
+}
+
+export type SaveResult = 'saved' | 'conflict' | 'failed';
+
+let knownRevision = 0;
+
 const DEFAULT_DATA: AppData = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
   pool: [],
   groups: [
     {
       id: 'g1',
       name: '主力团',
-      theme: '进攻(红)',
+      color: GROUP_COLORS[0].value,
+      strategy: '进攻',
       squads: [
         {
           id: 's1',
           name: '一队',
-          slots: Array(6).fill(null).map(() => ({ id: generateId(), memberId: null, note: '' }))
+          slots: Array(6).fill(null).map(() => ({ id: generateId(), memberId: null }))
         }
       ]
     }
@@ -30,86 +46,111 @@ const DEFAULT_DATA: AppData = {
   }
 };
 
-export const loadData = (): AppData => {
+// Values written by the localStorage-based versions are moved into IndexedDB on first read.
+// If IndexedDB is unavailable (e.g. some private browsing modes) localStorage keeps being used.
+// A failed IndexedDB write also leaves a localStorage copy; `isNewer` tells whether it beats the stored value.
+const readWithLegacyFallback = async <T>(key: string, parse: (raw: string) => T, isNewer: (legacy: T, stored: T) => boolean = () => false): Promise<T | undefined> => {
+  const legacy = localStorage.getItem(key);
+  try {
+    const stored = await idbGet<T>(key);
+    if (stored !== undefined && (legacy === null || !isNewer(parse(legacy), stored))) return stored;
+    if (legacy === null) return undefined;
+
+    const value = parse(legacy);
+    await idbSet(key, value);
+    localStorage.removeItem(key);
+    return value;
+  } catch (e) {
+    console.error(`IndexedDB read failed for ${key}, using localStorage`, e);
+    return legacy === null ? undefined : parse(legacy);
+  }
+};
+
+const writeWithLegacyFallback = async (key: string, value: unknown, serialize: () => string): Promise<void> => {
+  try {
+    await idbSet(key, value);
+  } catch (e) {
+    console.error(`IndexedDB write failed for ${key}, using localStorage`, e);
+    localStorage.setItem(key, serialize());
+    // Values without a revision can't be compared on read, so the stale copy has to go
+    await idbDelete(key).catch(() => undefined);
+  }
+};
+
+export const loadData = async (): Promise<AppData> => {
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
+    const stored = await readWithLegacyFallback<StoredRoster>(STORAGE_KEY, raw => JSON.parse(raw), (legacy, stored) => (legacy.revision || 0) > (stored.revision || 0));
     if (stored) {
-      const parsed = JSON.parse(stored);
-      // Backwards compatibility ensure config exists
-      if (!parsed.gameConfig) {
-        parsed.gameConfig = {
-          ultSkills: DEFAULT_ULT_SKILLS,
-          clanSkills: DEFAULT_CLAN_SKILLS
-        };
-      }
-      return parsed;
+      const { revision, ...data } = stored;
+      knownRevision = revision || 0;
+      return syncActivePlan(migrateData(data));
     }
   } catch (e) {
     console.error("Failed to load data", e);
   }
-  return DEFAULT_DATA;
+  return syncActivePlan(DEFAULT_DATA);
 };
 
-export const saveData = (data: AppData) => {
+// Refuses to overwrite a newer revision written by another tab unless `force` is set
+export const saveData = async (data: AppData, force = false): Promise<SaveResult> => {
+  const snapshot = syncActivePlan(data);
+  let conflict = false;
+  const nextRecord = (stored: StoredRoster | undefined): StoredRoster | undefined => {
+    const storedRevision = stored?.revision || 0;
+    if (!force && storedRevision > knownRevision) {
+      conflict = true;
+      return undefined;
+    }
+    // Updated inside the transaction so back-to-back saves see it. Never below what this tab already knows,
+    // so a localStorage fallback copy outranks the IndexedDB record it stands in for.
+    knownRevision = Math.max(storedRevision, knownRevision) + 1;
+    return { ...snapshot, revision: knownRevision };
+  };
+
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    let written: StoredRoster | undefined;
+    try {
+      written = await idbUpdate<StoredRoster>(STORAGE_KEY, nextRecord);
+    } catch (e) {
+      console.error("IndexedDB write failed, using localStorage", e);
+      const legacy = localStorage.getItem(STORAGE_KEY);
+      written = nextRecord(legacy ? JSON.parse(legacy) : undefined);
+      if (written) localStorage.setItem(STORAGE_KEY, JSON.stringify(written));
+    }
+    if (conflict || !written) return 'conflict';
+    notifyRosterSaved(knownRevision);
+    return 'saved';
   } catch (e) {
     console.error("Failed to save data", e);
-    alert("保存失败！浏览器缓存已满，请尝试清理数据。");
+    return 'failed'; // Shown by the save indicator; autosave retries on the next edit
   }
 };
 
-// Image compression helper
-const compressImage = (base64Str: string, maxWidth = 1600, quality = 0.6): Promise<string> => {
-  return new Promise((resolve) => {
-    const img = new Image();
-    img.src = base64Str;
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      let width = img.width;
-      let height = img.height;
-
-      if (width > maxWidth) {
-        height = Math.round((height * maxWidth) / width);
-        width = maxWidth;
-      }
-
-      canvas.width = width;
-      canvas.height = height;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        resolve(base64Str); // Fallback
-        return;
-      }
-      ctx.drawImage(img, 0, 0, width, height);
-      resolve(canvas.toDataURL('image/jpeg', quality));
-    };
-    img.onerror = () => resolve(base64Str);
-  });
-};
-
+// Backgrounds are stored at full resolution as data URLs
 export const saveBackground = async (dataUrl: string) => {
   try {
-    // Attempt to compress before saving to fit in LocalStorage
-    const compressed = await compressImage(dataUrl);
-    try {
-      localStorage.setItem(BG_KEY, compressed);
-      return compressed;
-    } catch (storageError) {
-      console.error("LocalStorage quota exceeded", storageError);
-      alert("背景图过大，无法保存到本地缓存。刷新后将恢复默认，建议使用预设背景或更小的图片。");
-      return compressed; // Return it so it shows for this session at least
-    }
+    await writeWithLegacyFallback(BG_KEY, dataUrl, () => dataUrl);
   } catch (e) {
-    console.error("Image processing failed", e);
-    return dataUrl; 
+    console.error("Failed to save background", e);
+    alert("背景图保存失败，刷新后将恢复默认。");
   }
+  return dataUrl; // Shown for this session even if it could not be persisted
 };
 
-export const loadBackground = (): string | null => {
-  return localStorage.getItem(BG_KEY);
+export const loadBackground = async (): Promise<string | null> => {
+  try {
+    return (await readWithLegacyFallback<string>(BG_KEY, raw => raw)) || null;
+  } catch (e) {
+    console.error("Failed to load background", e);
+    return null;
+  }
 };
 
-export const clearBackground = () => {
+export const clearBackground = async () => {
   localStorage.removeItem(BG_KEY);
+  try {
+    await idbDelete(BG_KEY);
+  } catch (e) {
+    console.error("Failed to clear background", e);
+  }
 };
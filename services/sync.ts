@@ -0,0 +1,52 @@
+
+// Cross-tab notifications. IndexedDB writes do not fire `storage` events, so tabs announce
+// their saves over a BroadcastChannel, with a localStorage ping as fallback.
+const CHANNEL_NAME = 'nsh_roster_sync';
+const PING_KEY = 'nsh_roster_sync_ping';
+
+export const TAB_ID = Date.now().toString(36) + Math.random().toString(36).slice(2);
+
+export interface SyncMessage {
+  type: 'saved';
+  tabId: string;
+  revision: number;
+}
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+export const notifyRosterSaved = (revision: number) => {
+  const message: SyncMessage = { type: 'saved', tabId: TAB_ID, revision };
+  if (channel) {
+    channel.postMessage(message);
+  } else {
+    try {
+      localStorage.setItem(PING_KEY, JSON.stringify(message));
+    } catch (e) {
+      console.error("Failed to notify other tabs", e);
+    }
+  }
+};
+
+// Calls `listener` for saves made by other tabs; returns an unsubscribe function
+export const subscribeRosterChanges = (listener: (message: SyncMessage) => void) => {
+  const handle = (message: SyncMessage | null) => {
+    if (message && message.type === 'saved' && message.tabId !== TAB_ID) listener(message);
+  };
+
+  if (channel) {
+    const onMessage = (e: MessageEvent<SyncMessage>) => handle(e.data);
+    channel.addEventListener('message', onMessage);
+    return () => channel.removeEventListener('message', onMessage);
+  }
+
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== PING_KEY || !e.newValue) return;
+    try {
+      handle(JSON.parse(e.newValue));
+    } catch (err) {
+      console.error("Invalid sync message", err);
+    }
+  };
+  window.addEventListener('storage', onStorage);
+  return () => window.removeEventListener('storage', onStorage);
+};
@@ -0,0 +1,27 @@
+
+import { Member } from '../types';
+
+// Chip colors are derived from the tag text so the same tag looks the same everywhere
+const TAG_PALETTE = ['#0F766E', '#7C3AED', '#DB2777', '#EA580C', '#2563EB', '#65A30D', '#CA8A04', '#0891B2', '#9333EA', '#DC2626'];
+
+export const getTagColor = (tag: string) => {
+  let hash = 0;
+  for (let i = 0; i < tag.length; i++) hash = (hash * 31 + tag.charCodeAt(i)) | 0;
+  return TAG_PALETTE[Math.abs(hash) % TAG_PALETTE.length];
+};
+
+export const normalizeTag = (tag: string) => tag.trim().replace(/^#/, '').trim();
+
+// Adds tags (deduplicated, empty ones dropped) to an existing list
+export const mergeTags = (current: string[] | undefined, added: string[]) => {
+  const result = [...(current || [])];
+  added.map(normalizeTag).forEach(t => { if (t && !result.includes(t)) result.push(t); });
+  return result;
+};
+
+// All tags in use, most used first
+export const collectTags = (pool: Member[]) => {
+  const counts = new Map<string, number>();
+  pool.forEach(m => m.tags?.forEach(t => counts.set(t, (counts.get(t) || 0) + 1)));
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([tag]) => tag);
+};
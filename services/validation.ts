@@ -0,0 +1,357 @@
+
+import { AppData, Group, Member, MEMBER_STATS, ATTENDANCE_STATUSES } from '../types';
+import { generateId } from './storage';
+
+export interface ValidationIssue {
+  path: string; // e.g. groups[2].squads[1].slots[4]
+  message: string;
+  repair?: string; // What the automatic repair does; undefined if it cannot be repaired
+}
+
+export interface ValidationResult {
+  issues: ValidationIssue[];
+  fatal: boolean; // Problems that cannot be repaired, the file must be rejected
+  repaired: AppData | null; // Deep copy with all repairs applied (null if fatal); legacy fields are left for migrateData
+}
+
+const DEFAULT_SLOT_COUNT = 6;
+
+// Fields stay loosely typed since the checks below repair them in place; without strictNullChecks
+// an `unknown` field can't be narrowed past its null checks
+export const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNonEmptyString = (v: unknown): v is string => typeof v === 'string' && v.trim() !== '';
+// Hand-edited files sometimes use numbers as ids
+const isNumericId = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+// Checks an imported roster file before it is migrated and accepted.
+// Legacy fields (Group.theme, Slot.note) are tolerated here; migrations take care of them.
+export const validateRosterData = (raw: unknown): ValidationResult => {
+  const issues: ValidationIssue[] = [];
+  const fail = (path: string, message: string): ValidationResult => {
+    issues.push({ path, message });
+    return { issues, fatal: true, repaired: null };
+  };
+
+  if (!isObject(raw)) return fail('$', "文件内容不是一个对象");
+  if (!Array.isArray(raw.pool)) return fail('pool', "缺少成员列表 (pool 应为数组)");
+  if (!Array.isArray(raw.groups)) return fail('groups', "缺少团队列表 (groups 应为数组)");
+
+  const data = JSON.parse(JSON.stringify(raw));
+
+  // --- Members ---
+  const memberIds = new Set<string>();
+  data.pool = data.pool.filter((m: unknown, i: number) => {
+    const path = `pool[${i}]`;
+    if (!isObject(m)) {
+      issues.push({ path, message: "成员不是对象", repair: "移除该条目" });
+      return false;
+    }
+    if (!isNonEmptyString(m.name)) {
+      issues.push({ path: `${path}.name`, message: "成员缺少名字", repair: "移除该成员" });
+      return false;
+    }
+    if (isNumericId(m.id)) {
+      issues.push({ path: `${path}.id`, message: `成员「${m.name}」的 id 是数字`, repair: "转换为文本" });
+      m.id = String(m.id);
+    }
+    if (!isNonEmptyString(m.id)) {
+      m.id = generateId();
+      issues.push({ path: `${path}.id`, message: `成员「${m.name}」缺少 id`, repair: "生成新 id" });
+    } else if (memberIds.has(m.id)) {
+      const oldId = m.id;
+      m.id = generateId();
+      issues.push({ path: `${path}.id`, message: `成员 id "${oldId}" 重复 (「${m.name}」)`, repair: "为重复项生成新 id，排布仍指向第一个成员" });
+    }
+    memberIds.add(m.id);
+
+    const stringFields: [string, string][] = [['profession', '未知'], ['ult', '无'], ['clan', '无']];
+    stringFields.forEach(([field, fallback]) => {
+      if (typeof m[field] !== 'string') {
+        issues.push({ path: `${path}.${field}`, message: `「${m.name}」的 ${field} 不是字符串`, repair: `设为 "${m[field] == null ? fallback : String(m[field])}"` });
+        m[field] = m[field] == null ? fallback : String(m[field]);
+      }
+    });
+    if (m.note !== undefined && typeof m.note !== 'string') {
+      issues.push({ path: `${path}.note`, message: `「${m.name}」的备注不是字符串`, repair: m.note == null ? "清空备注" : "转换为文本" });
+      m.note = m.note == null ? '' : String(m.note);
+    }
+    MEMBER_STATS.forEach(({ key, label }) => {
+      if (m[key] === undefined || (typeof m[key] === 'number' && Number.isFinite(m[key]))) return;
+      const parsed = Number(m[key]);
+      if (m[key] !== null && m[key] !== '' && Number.isFinite(parsed)) {
+        issues.push({ path: `${path}.${key}`, message: `「${m.name}」的${label}不是数字`, repair: `设为 ${parsed}` });
+        m[key] = parsed;
+      } else {
+        issues.push({ path: `${path}.${key}`, message: `「${m.name}」的${label}无效`, repair: `清空${label}` });
+        delete m[key];
+      }
+    });
+    if (m.tags !== undefined) {
+      if (!Array.isArray(m.tags)) {
+        issues.push({ path: `${path}.tags`, message: `「${m.name}」的标签不是数组`, repair: typeof m.tags === 'string' ? "按逗号拆分为标签" : "清空标签" });
+        m.tags = typeof m.tags === 'string' ? m.tags.split(/[,，]/).map((t: string) => t.trim()).filter(Boolean) : [];
+      } else if (m.tags.some((t: unknown) => typeof t !== 'string' || !t.trim())) {
+        issues.push({ path: `${path}.tags`, message: `「${m.name}」有无效标签`, repair: "移除无效标签" });
+        m.tags = m.tags.filter((t: unknown) => typeof t === 'string' && t.trim());
+      }
+    }
+    if (m.attendance !== undefined) {
+      if (!isObject(m.attendance)) {
+        issues.push({ path: `${path}.attendance`, message: `「${m.name}」的出勤记录不是对象`, repair: "清空出勤记录" });
+        delete m.attendance;
+      } else {
+        Object.entries(m.attendance).forEach(([planId, status]) => {
+          if (!ATTENDANCE_STATUSES.some(a => a.key === status)) {
+            issues.push({ path: `${path}.attendance.${planId}`, message: `「${m.name}」的出勤状态 "${String(status)}" 无效`, repair: "设为未回复" });
+            delete m.attendance[planId];
+          }
+        });
+      }
+    }
+    if (m.archived !== undefined && typeof m.archived !== 'boolean') {
+      issues.push({ path: `${path}.archived`, message: `「${m.name}」的归档标记无效`, repair: m.archived ? "设为已归档" : "设为在队" });
+      m.archived = !!m.archived;
+    }
+    if (m.joinedAt !== undefined && (typeof m.joinedAt !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(m.joinedAt))) {
+      issues.push({ path: `${path}.joinedAt`, message: `「${m.name}」的入队日期 "${String(m.joinedAt)}" 无效`, repair: "移除入队日期（按一直在队统计）" });
+      delete m.joinedAt;
+    }
+    if (m.custom !== undefined) {
+      if (!isObject(m.custom)) {
+        issues.push({ path: `${path}.custom`, message: `「${m.name}」的自定义字段不是对象`, repair: "清空自定义字段" });
+        delete m.custom;
+      } else {
+        Object.entries(m.custom).forEach(([key, value]) => {
+          if (typeof value === 'string') return;
+          issues.push({ path: `${path}.custom.${key}`, message: `「${m.name}」的自定义字段「${key}」不是文本`, repair: value == null ? "移除该字段" : "转换为文本" });
+          if (value == null) delete m.custom[key];
+          else m.custom[key] = String(value);
+        });
+      }
+    }
+    if (m.characters !== undefined) {
+      if (!Array.isArray(m.characters)) {
+        issues.push({ path: `${path}.characters`, message: `「${m.name}」的小号列表不是数组`, repair: "清空小号" });
+        delete m.characters;
+      } else {
+        m.characters = m.characters.filter((c: unknown, ci: number) => {
+          if (!isObject(c) || !isNonEmptyString(c.id) || !isNonEmptyString(c.profession)) {
+            issues.push({ path: `${path}.characters[${ci}]`, message: `「${m.name}」有无效的小号`, repair: "移除该小号" });
+            return false;
+          }
+          (['ult', 'clan'] as const).forEach(field => {
+            if (typeof c[field] === 'string') return;
+            issues.push({ path: `${path}.characters[${ci}].${field}`, message: `「${m.name}」小号的 ${field} 不是字符串`, repair: "设为 \"无\"" });
+            c[field] = '无';
+          });
+          if (c.name !== undefined && typeof c.name !== 'string') {
+            issues.push({ path: `${path}.characters[${ci}].name`, message: `「${m.name}」小号的名字不是字符串`, repair: "使用主号名字" });
+            delete c.name;
+          }
+          return true;
+        });
+      }
+    }
+    return true;
+  });
+
+  // --- Boards (active groups and every stored plan) ---
+  // Archived members are never deployed, same as the roster engine enforces
+  const pool: Member[] = data.pool;
+  const memberName = (id: string) => pool.find(m => m.id === id)?.name;
+  const archivedNames = new Map(pool.filter(m => m.archived).map(m => [m.id, m.name]));
+  const validateGroups = (groups: unknown[], basePath: string): Group[] => {
+    const placed = new Set<string>();
+    const validGroups = groups.filter((g: unknown, gi: number): g is Group => {
+      const gPath = `${basePath}[${gi}]`;
+      if (!isObject(g)) {
+        issues.push({ path: gPath, message: "团不是对象", repair: "移除该团" });
+        return false;
+      }
+      if (!isNonEmptyString(g.id)) {
+        g.id = generateId();
+        issues.push({ path: `${gPath}.id`, message: "团缺少 id", repair: "生成新 id" });
+      }
+      if (typeof g.name !== 'string') {
+        issues.push({ path: `${gPath}.name`, message: "团名不是字符串", repair: "设为 \"未命名团\"" });
+        g.name = g.name == null ? '未命名团' : String(g.name);
+      }
+      if (!Array.isArray(g.squads)) {
+        issues.push({ path: `${gPath}.squads`, message: `团「${g.name}」缺少队伍列表`, repair: "设为空列表" });
+        g.squads = [];
+      }
+
+      g.squads = g.squads.filter((s: unknown, si: number) => {
+        const sPath = `${gPath}.squads[${si}]`;
+        if (!isObject(s)) {
+          issues.push({ path: sPath, message: "队伍不是对象", repair: "移除该队伍" });
+          return false;
+        }
+        if (!isNonEmptyString(s.id)) {
+          s.id = generateId();
+          issues.push({ path: `${sPath}.id`, message: "队伍缺少 id", repair: "生成新 id" });
+        }
+        if (typeof s.name !== 'string') {
+          issues.push({ path: `${sPath}.name`, message: "队名不是字符串", repair: "设为空" });
+          s.name = s.name == null ? '' : String(s.name);
+        }
+        if (!Array.isArray(s.slots)) {
+          issues.push({ path: `${sPath}.slots`, message: `队伍「${s.name}」缺少 slots`, repair: `创建 ${DEFAULT_SLOT_COUNT} 个空位` });
+          s.slots = Array(DEFAULT_SLOT_COUNT).fill(null).map(() => ({ id: generateId(), memberId: null }));
+        }
+
+        s.slots = s.slots.map((sl: unknown, k: number) => {
+          const slPath = `${sPath}.slots[${k}]`;
+          if (!isObject(sl)) {
+            issues.push({ path: slPath, message: "位置不是对象", repair: "替换为空位" });
+            return { id: generateId(), memberId: null };
+          }
+          if (!isNonEmptyString(sl.id)) {
+            sl.id = generateId();
+            issues.push({ path: `${slPath}.id`, message: "位置缺少 id", repair: "生成新 id" });
+          }
+          if (isNumericId(sl.memberId)) {
+            issues.push({ path: `${slPath}.memberId`, message: "memberId 是数字", repair: "转换为文本" });
+            sl.memberId = String(sl.memberId);
+          }
+          if (sl.memberId === undefined) {
+            sl.memberId = null;
+          } else if (sl.memberId !== null && typeof sl.memberId !== 'string') {
+            issues.push({ path: `${slPath}.memberId`, message: "memberId 不是字符串", repair: "清空该位置" });
+            sl.memberId = null;
+          } else if (sl.memberId !== null && !memberIds.has(sl.memberId)) {
+            issues.push({ path: `${slPath}.memberId`, message: `引用了不存在的成员 "${sl.memberId}"`, repair: "清空该位置" });
+            sl.memberId = null;
+          } else if (sl.memberId !== null && archivedNames.has(sl.memberId)) {
+            issues.push({ path: `${slPath}.memberId`, message: `已归档的成员「${archivedNames.get(sl.memberId)}」仍在阵容中`, repair: "清空该位置" });
+            sl.memberId = null;
+          } else if (sl.memberId !== null && placed.has(sl.memberId)) {
+            const name = memberName(sl.memberId);
+            issues.push({ path: `${slPath}.memberId`, message: `成员「${name}」被重复安排`, repair: "保留第一次出现，清空该位置" });
+            sl.memberId = null;
+          }
+          if (sl.memberId) placed.add(sl.memberId);
+          if (sl.characterId !== undefined) {
+            const member = sl.memberId ? pool.find(m => m.id === sl.memberId) : undefined;
+            if (!member?.characters?.some(c => c.id === sl.characterId)) {
+              issues.push({ path: `${slPath}.characterId`, message: "引用了不存在的小号", repair: "改为主号出战" });
+              delete sl.characterId;
+            }
+          }
+          return sl;
+        });
+        return true;
+      });
+      return true;
+    });
+
+    // Benches are checked after every slot, so a member placed in a slot wins over a bench entry
+    const validateBench = (owner: { bench?: unknown }, path: string) => {
+      if (owner.bench === undefined) return;
+      if (!Array.isArray(owner.bench)) {
+        issues.push({ path, message: "替补列表不是数组", repair: "清空替补" });
+        delete owner.bench;
+        return;
+      }
+      owner.bench = owner.bench.map((id: unknown, k: number) => {
+        if (!isNumericId(id)) return id;
+        issues.push({ path: `${path}[${k}]`, message: "替补 id 是数字", repair: "转换为文本" });
+        return String(id);
+      }).filter((id: unknown, k: number) => {
+        if (typeof id !== 'string' || !memberIds.has(id)) {
+          issues.push({ path: `${path}[${k}]`, message: `替补引用了不存在的成员 "${String(id)}"`, repair: "移除该替补" });
+          return false;
+        }
+        if (archivedNames.has(id)) {
+          issues.push({ path: `${path}[${k}]`, message: `已归档的成员「${archivedNames.get(id)}」仍在替补中`, repair: "移除该替补" });
+          return false;
+        }
+        if (placed.has(id)) {
+          issues.push({ path: `${path}[${k}]`, message: `成员「${memberName(id)}」被重复安排`, repair: "保留第一次出现，移除该替补" });
+          return false;
+        }
+        placed.add(id);
+        return true;
+      });
+    };
+    validGroups.forEach((g, gi) => {
+      g.squads.forEach((s, si) => validateBench(s, `${basePath}[${gi}].squads[${si}].bench`));
+      validateBench(g, `${basePath}[${gi}].bench`);
+    });
+    return validGroups;
+  };
+
+  data.groups = validateGroups(data.groups, 'groups');
+
+  if (data.plans !== undefined) {
+    if (!Array.isArray(data.plans)) {
+      issues.push({ path: 'plans', message: "方案列表不是数组", repair: "忽略方案列表" });
+      delete data.plans;
+      delete data.activePlanId;
+    } else {
+      data.plans = data.plans.filter((p: unknown, pi: number) => {
+        const pPath = `plans[${pi}]`;
+        if (!isObject(p) || !isNonEmptyString(p.id) || !Array.isArray(p.groups)) {
+          issues.push({ path: pPath, message: "方案格式无效", repair: "移除该方案" });
+          return false;
+        }
+        if (typeof p.name !== 'string') {
+          issues.push({ path: `${pPath}.name`, message: "方案名不是字符串", repair: "设为 \"未命名方案\"" });
+          p.name = '未命名方案';
+        }
+        p.groups = validateGroups(p.groups, `${pPath}.groups`);
+        return true;
+      });
+    }
+  }
+
+  if (data.history !== undefined) {
+    if (!Array.isArray(data.history)) {
+      issues.push({ path: 'history', message: "出场记录不是数组", repair: "忽略出场记录" });
+      delete data.history;
+    } else {
+      const isIdList = (v: unknown) => Array.isArray(v) && v.every(id => typeof id === 'string');
+      data.history = data.history.filter((e: unknown, ei: number) => {
+        const ePath = `history[${ei}]`;
+        if (isObject(e)) {
+          (['played', 'benched'] as const).forEach(field => {
+            if (!Array.isArray(e[field]) || !e[field].some(isNumericId)) return;
+            issues.push({ path: `${ePath}.${field}`, message: "成员 id 是数字", repair: "转换为文本" });
+            e[field] = e[field].map((id: unknown) => isNumericId(id) ? String(id) : id);
+          });
+        }
+        if (!isObject(e) || !isNonEmptyString(e.id) || typeof e.date !== 'string' || !isIdList(e.played)) {
+          issues.push({ path: ePath, message: "出场记录格式无效", repair: "移除该记录" });
+          return false;
+        }
+        if (typeof e.name !== 'string') {
+          issues.push({ path: `${ePath}.name`, message: "活动名不是字符串", repair: "设为 \"未命名活动\"" });
+          e.name = '未命名活动';
+        }
+        if (!isIdList(e.benched)) {
+          issues.push({ path: `${ePath}.benched`, message: "替补列表无效", repair: "设为空列表" });
+          e.benched = [];
+        }
+        return true;
+      });
+    }
+  }
+
+  // --- Game config ---
+  if (data.gameConfig !== undefined) {
+    if (!isObject(data.gameConfig)) {
+      issues.push({ path: 'gameConfig', message: "全局配置格式无效", repair: "根据成员技能重建" });
+      delete data.gameConfig;
+    } else {
+      (['ultSkills', 'clanSkills'] as const).forEach(field => {
+        const list = data.gameConfig[field];
+        if (!Array.isArray(list) || list.some((v: unknown) => typeof v !== 'string')) {
+          issues.push({ path: `gameConfig.${field}`, message: `${field} 应为字符串数组`, repair: "移除无效项" });
+          data.gameConfig[field] = Array.isArray(list) ? list.filter((v: unknown) => typeof v === 'string') : [];
+        }
+      });
+    }
+  }
+
+  return { issues, fatal: false, repaired: data };
+};
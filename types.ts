@@ -6,29 +6,64 @@ export interface Member {
   ult: string;
   clan: string;
   note?: string; // Merged note field
+  power?: number; // 战力/评分
+  level?: number;
+  gear?: number; // 装备评分, optional
+  attendance?: Record<string, AttendanceStatus>; // Plan id -> sign-up status; missing means 未回复
+  tags?: string[]; // e.g. 指挥, 新人, 主力
+  characters?: MemberCharacter[]; // Alts; profession/ult/clan above describe the main character
+  custom?: Record<string, string>; // Guild-defined attributes, e.g. 帮会职位, QQ
+  archived?: boolean; // Inactive: kept with all data but hidden from the sidebar and never deployed
+  joinedAt?: string; // YYYY-MM-DD the member was added; missing for members older than this field
 }
 
+// Another character owned by the same player, see services/characters.ts
+export interface MemberCharacter {
+  id: string;
+  name?: string; // In-game name when it differs from the main character's
+  profession: string;
+  ult: string;
+  clan: string;
+}
+
+export type AttendanceStatus = 'signed' | 'leave' | 'tentative' | 'none';
+
+export const ATTENDANCE_STATUSES: { key: AttendanceStatus; label: string; className: string }[] = [
+  { key: 'signed', label: '报名', className: 'text-emerald-700 dark:text-emerald-300 bg-emerald-50 dark:bg-emerald-900/30 border-emerald-200 dark:border-emerald-800' },
+  { key: 'leave', label: '请假', className: 'text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/30 border-red-200 dark:border-red-800' },
+  { key: 'tentative', label: '待定', className: 'text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/30 border-amber-200 dark:border-amber-800' },
+  { key: 'none', label: '未回复', className: 'text-gray-500 dark:text-slate-400 bg-gray-50 dark:bg-slate-900 border-gray-200 dark:border-slate-600' },
+];
+
+export type MemberStatKey = 'power' | 'level' | 'gear';
+
+export const MEMBER_STATS: { key: MemberStatKey; label: string }[] = [
+  { key: 'power', label: '战力' },
+  { key: 'level', label: '等级' },
+  { key: 'gear', label: '装评' },
+];
+
 export interface Slot {
   id: string;
   memberId: string | null;
-  // note field in Slot is deprecated in favor of Member.note, but kept for type safety if needed temporarily
-  note: string;
+  characterId?: string; // Alt the member plays in this slot; missing means the main character
 }
 
 export interface Squad {
   id: string;
   name: string;
   slots: Slot[];
+  bench?: string[]; // Substitute member ids, in order
 }
 
 export interface Group {
   id: string;
   name: string;
-  theme?: string; // Deprecated
   color?: string;
   strategy?: string;
   newLine?: boolean; // New: Controls if this group starts a new row
   squads: Squad[];
+  bench?: string[]; // Group-wide substitutes, not tied to a squad
 }
 
 export interface GameConfig {
@@ -37,14 +72,35 @@ export interface GameConfig {
   professionColors?: Record<string, string>;
 }
 
+export interface RosterPlan {
+  id: string;
+  name: string;
+  groups: Group[];
+}
+
+// Snapshot of who played in a finished event, see services/history.ts
+export interface ArchivedEvent {
+  id: string;
+  name: string;
+  date: string; // YYYY-MM-DD
+  planId?: string; // Plan it was archived from
+  played: string[]; // Member ids placed in slots
+  benched: string[]; // Member ids on a squad or group bench
+}
+
 export interface AppData {
+  schemaVersion?: number; // See services/migrations.ts
   pool: Member[];
-  groups: Group[];
+  groups: Group[]; // Board of the active plan
   gameConfig?: GameConfig;
+  plans?: RosterPlan[]; // Plan library, shares pool and gameConfig
+  activePlanId?: string;
+  history?: ArchivedEvent[]; // Finished events, oldest first
 }
 
 export type ThemeColor = 'red' | 'blue' | 'yellow' | 'green' | 'purple' | 'gray';
 
+// Legacy Group.theme presets, only read when migrating old saves
 export const THEME_CONFIG: Record<string, { bg: string; border: string; label: string }> = {
   "进攻(红)": { bg: "rgba(239, 154, 154, 0.2)", border: "#EF9A9A", label: "进攻" },
   "防守(蓝)": { bg: "rgba(144, 202, 249, 0.2)", border: "#90CAF9", label: "防守" },